@@ -27,7 +27,10 @@ export function handleMessage(
   const messageType = message.type || '';
   
   // 同步相关操作
-  if (messageType === 'FORCE_SYNC' || messageType === 'NORMAL_SYNC') {
+  if (messageType === 'FORCE_SYNC' || 
+      messageType === 'NORMAL_SYNC' || 
+      messageType === 'RECEIVE_SYNC' ||
+      messageType === 'CANCEL_SYNC') {
     return handleSyncActions(message, sender, sendResponse);
   }
   
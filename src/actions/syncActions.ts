@@ -1,4 +1,5 @@
 import syncService from '../service/syncService';
+import receiveService from '../service/receiveService';
 
 /**
  * 处理同步相关的消息
@@ -36,6 +37,27 @@ export function handleSyncActions(
       });
     return true; // 保持消息通道开放，等待异步响应
   }
+  else if (message.type === 'CANCEL_SYNC') {
+    // 取消正在进行的同步
+    const cancelled = syncService.cancelSync();
+    sendResponse({
+      success: cancelled,
+      message: cancelled ? '已取消同步' : '当前没有正在进行的同步'
+    });
+    return true;
+  }
+  else if (message.type === 'RECEIVE_SYNC') {
+    // 从对端拉取数据并写入浏览器
+    receiveService.receiveDomainData()
+      .then(result => {
+        sendResponse(result);
+      })
+      .catch(error => {
+        console.error('接收数据失败:', error);
+        sendResponse({ success: false, message: '接收过程中发生错误' });
+      });
+    return true; // 保持消息通道开放，等待异步响应
+  }
   
   return false;
 }
\ No newline at end of file
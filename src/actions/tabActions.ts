@@ -1,4 +1,6 @@
 import domainStateManager from '../service/domainState';
+import ConfigManager from '../service/config';
+import { getDomainCookies } from '../utils/cookieStores';
 
 /**
  * 处理Tab相关的消息
@@ -20,6 +22,9 @@ export async function handleTabActions(
     }
     const allDomains = new Set<string>();
 
+    // 等待域名状态从会话存储恢复
+    await domainStateManager.whenReady();
+
     // 获取与该tabId相关的所有域名
     const relatedDomains = domainStateManager.getDomainsForTab(tabId);
 
@@ -59,12 +64,12 @@ export async function handleTabActions(
     }
 
     try {
-      // 从domainStateManager中获取该域名的状态数据
-      const domainData = (await domainStateManager.extractDomainData(false))
-        .find(data => data.domain === domain);
+      // 从domainStateManager中获取该域名的请求头（只读取，不消耗待同步的变化记录）
+      const headers = await domainStateManager.getDomainHeaders(domain);
       
-      // 获取该域名的所有Cookie
-      chrome.cookies.getAll({ domain })
+      // 获取该域名在规则选择的存储和分区中的所有Cookie
+      const { cookieStores } = await ConfigManager.getDomainSyncConfig(domain);
+      getDomainCookies(domain, cookieStores)
         .then(cookies => {
           const filteredCookies = cookies.filter(cookie => {
             return cookie.domain === domain
@@ -74,7 +79,7 @@ export async function handleTabActions(
             data: {
               domain,
               cookies: filteredCookies,
-              headers: domainData?.headers || {},
+              headers,
             }
           });
         })
@@ -85,7 +90,7 @@ export async function handleTabActions(
             data: {
               domain,
               cookies: [],
-              headers: domainData?.headers || {},
+              headers,
             }
           });
         });
@@ -0,0 +1,165 @@
+import React from 'react';
+import { Input, Button, Form, Radio, Select, Space } from '@arco-design/web-react';
+
+const FormItem = Form.Item;
+const RadioGroup = Radio.Group;
+const Option = Select.Option;
+
+interface EndpointConnectionFieldsProps {
+  authField: string;          // 认证配置字段路径
+  transportField: string;     // 传输方式字段路径
+  settingsField: string;      // 传输方式额外设置字段路径
+  inputStyle?: React.CSSProperties;
+}
+
+// 传输方式说明
+const TRANSPORT_DESCRIPTIONS: Record<string, string> = {
+  'http-json': '本插件的默认协议：POST /set 发送数据，POST /get 拉取数据',
+  'cookiecloud': '原版 CookieCloud 服务端：POST /update 上传、GET /get/:uuid 下载，使用用户KEY和密码加密',
+  'webdav': '接口地址填写 WebDAV 文件地址，所有数据保存为一个 JSON 文件',
+  's3-presigned': '接口地址填写预签名服务地址，通过 POST /presign 获取每个数据项的上传/下载地址',
+};
+
+/**
+ * endpoint 连接设置表单项：传输方式、认证方式和自定义请求头
+ * 服务配置中的默认endpoint和 Endpoint 管理中的endpoint共用
+ */
+const EndpointConnectionFields = ({ authField, transportField, settingsField, inputStyle }: EndpointConnectionFieldsProps) => {
+  const getValue = (values: any, path: string) =>
+    path.split('.').reduce((value, key) => (value ? value[key] : undefined), values);
+
+  return (
+    <>
+      <FormItem
+        noStyle
+        shouldUpdate={(prevValues, currentValues) =>
+          getValue(prevValues, transportField) !== getValue(currentValues, transportField)
+        }
+      >
+        {(values) => {
+          const transport = getValue(values, transportField) || 'http-json';
+          return (
+            <>
+              <FormItem label="传输方式" field={transportField} extra={TRANSPORT_DESCRIPTIONS[transport]}>
+                <Select style={inputStyle}>
+                  <Option value="http-json">HTTP JSON</Option>
+                  <Option value="cookiecloud">原版 CookieCloud 服务端</Option>
+                  <Option value="webdav">WebDAV</Option>
+                  <Option value="s3-presigned">S3 预签名</Option>
+                </Select>
+              </FormItem>
+              {transport === 'cookiecloud' && (
+                <>
+                  <FormItem
+                    label="用户KEY"
+                    field={`${settingsField}.cookieCloudUuid`}
+                    rules={[{ required: true, message: '请输入用户KEY' }]}
+                  >
+                    <Input placeholder="原版 CookieCloud 的用户KEY（uuid）" style={inputStyle} />
+                  </FormItem>
+                  <FormItem
+                    label="端对端加密密码"
+                    field={`${settingsField}.cookieCloudPassword`}
+                    rules={[{ required: true, message: '请输入密码' }]}
+                  >
+                    <Input.Password placeholder="原版 CookieCloud 的端对端加密密码" style={inputStyle} />
+                  </FormItem>
+                </>
+              )}
+            </>
+          );
+        }}
+      </FormItem>
+
+      <FormItem
+        label="接口认证"
+        field={`${authField}.type`}
+        extra="HMAC 模式会在请求头中附带时间戳和签名，签名内容为 时间戳、请求方法、路径和请求体"
+      >
+        <RadioGroup>
+          <Radio value="none">不认证</Radio>
+          <Radio value="bearer">Bearer 令牌</Radio>
+          <Radio value="basic">用户名密码</Radio>
+          <Radio value="hmac">HMAC 签名</Radio>
+        </RadioGroup>
+      </FormItem>
+
+      <FormItem
+        noStyle
+        shouldUpdate={(prevValues, currentValues) =>
+          getValue(prevValues, `${authField}.type`) !== getValue(currentValues, `${authField}.type`)
+        }
+      >
+        {(values) => {
+          const authType = getValue(values, `${authField}.type`);
+          if (authType === 'bearer') {
+            return (
+              <FormItem
+                label="Bearer 令牌"
+                field={`${authField}.token`}
+                rules={[{ required: true, message: '请输入令牌' }]}
+              >
+                <Input.Password placeholder="请求时以 Authorization: Bearer <令牌> 发送" style={inputStyle} />
+              </FormItem>
+            );
+          }
+          if (authType === 'basic') {
+            return (
+              <>
+                <FormItem
+                  label="用户名"
+                  field={`${authField}.username`}
+                  rules={[{ required: true, message: '请输入用户名' }]}
+                >
+                  <Input placeholder="请输入用户名" style={inputStyle} />
+                </FormItem>
+                <FormItem label="密码" field={`${authField}.password`}>
+                  <Input.Password placeholder="请输入密码" style={inputStyle} />
+                </FormItem>
+              </>
+            );
+          }
+          if (authType === 'hmac') {
+            return (
+              <FormItem
+                label="HMAC 密钥"
+                field={`${authField}.hmacSecret`}
+                rules={[{ required: true, message: '请输入HMAC密钥' }]}
+              >
+                <Input.Password placeholder="与服务端共享的签名密钥" style={inputStyle} />
+              </FormItem>
+            );
+          }
+          return null;
+        }}
+      </FormItem>
+
+      <FormItem label="自定义请求头" extra="随每个请求发送，不会覆盖认证请求头">
+        <Form.List field={`${authField}.customHeaders`}>
+          {(fields, { add, remove }) => (
+            <Space direction="vertical" style={{ width: '100%' }}>
+              {fields.map((item, index) => (
+                <Space key={item.key}>
+                  <FormItem field={`${item.field}.name`} noStyle rules={[{ required: true, message: '请输入请求头名称' }]}>
+                    <Input placeholder="请求头名称" style={{ width: 200 }} />
+                  </FormItem>
+                  <FormItem field={`${item.field}.value`} noStyle>
+                    <Input placeholder="请求头值" style={{ width: 300 }} />
+                  </FormItem>
+                  <Button size="small" status="danger" onClick={() => remove(index)}>
+                    删除
+                  </Button>
+                </Space>
+              ))}
+              <Button size="small" type="dashed" onClick={() => add({ name: '', value: '' })}>
+                添加请求头
+              </Button>
+            </Space>
+          )}
+        </Form.List>
+      </FormItem>
+    </>
+  );
+};
+
+export default EndpointConnectionFields;
@@ -0,0 +1,311 @@
+import React, { useState, useEffect } from 'react';
+import { Card, Input, InputTag, Button, Table, Space, Modal, Form, Message, Switch, Tooltip, Select, Tag } from '@arco-design/web-react';
+import { IconQuestionCircle } from '@arco-design/web-react/icon';
+import ConfigManager, { EndpointProfile, PeerKeyInfo } from '../../service/config';
+import EndpointConnectionFields from './EndpointConnectionFields';
+
+const FormItem = Form.Item;
+const Option = Select.Option;
+
+const EndpointProfiles = () => {
+  const [form] = Form.useForm();
+  const [visible, setVisible] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [profiles, setProfiles] = useState<EndpointProfile[]>([]);
+  const [peerKeys, setPeerKeys] = useState<PeerKeyInfo[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  // 加载额外的endpoint配置和对端列表
+  const loadProfiles = async () => {
+    setLoading(true);
+    try {
+      const config = await ConfigManager.getBaseConfig();
+      setProfiles(config.endpoints || []);
+      setPeerKeys(await ConfigManager.getAllPeerKeys());
+    } catch (error) {
+      console.error('加载endpoint配置失败:', error);
+      Message.error('加载endpoint配置失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 组件挂载时加载数据
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  // 获取对端的友好名称
+  const getPeerFriendlyName = (publicKey: string) => {
+    const peer = peerKeys.find(p => p.publicKey === publicKey);
+    return peer ? peer.friendlyName : `0x${publicKey.substring(0, 16)}...`;
+  };
+
+  const columns = [
+    {
+      title: '名称',
+      dataIndex: 'name',
+    },
+    {
+      title: '接口地址',
+      dataIndex: 'url',
+    },
+    {
+      title: '传输方式',
+      dataIndex: 'transport',
+      render: (transport: EndpointProfile['transport']) => {
+        if (transport === 'cookiecloud') return '原版 CookieCloud';
+        if (transport === 'webdav') return 'WebDAV';
+        if (transport === 's3-presigned') return 'S3 预签名';
+        return 'HTTP JSON';
+      },
+    },
+    {
+      title: '认证方式',
+      dataIndex: 'auth',
+      render: (auth: EndpointProfile['auth']) => {
+        if (auth?.type === 'bearer') return 'Bearer 令牌';
+        if (auth?.type === 'basic') return '用户名密码';
+        if (auth?.type === 'hmac') return 'HMAC 签名';
+        return '不认证';
+      },
+    },
+    {
+      title: (
+        <Space>
+          <span>对端</span>
+          <Tooltip content="只把数据加密给这些对端；为空表示所有对端">
+            <IconQuestionCircle />
+          </Tooltip>
+        </Space>
+      ),
+      dataIndex: 'peerKeys',
+      render: (keys: string[]) => {
+        if (!keys || keys.length === 0) return <Tag>所有对端</Tag>;
+        return (
+          <Space wrap>
+            {keys.map(key => (
+              <Tag key={key} color="blue">{getPeerFriendlyName(key)}</Tag>
+            ))}
+          </Space>
+        );
+      },
+    },
+    {
+      title: (
+        <Space>
+          <span>域名</span>
+          <Tooltip content="只发送匹配这些规则的域名；为空表示所有域名">
+            <IconQuestionCircle />
+          </Tooltip>
+        </Space>
+      ),
+      dataIndex: 'domains',
+      render: (domains: string[]) => {
+        if (!domains || domains.length === 0) return <Tag>所有域名</Tag>;
+        return (
+          <Space wrap>
+            {domains.map(domain => (
+              <Tag key={domain} color="arcoblue">{domain}</Tag>
+            ))}
+          </Space>
+        );
+      },
+    },
+    {
+      title: '启用',
+      dataIndex: 'enabled',
+      render: (enabled: boolean, record: EndpointProfile) => (
+        <Switch
+          checked={enabled}
+          onChange={(checked) => handleToggleEnabled(record, checked)}
+        />
+      ),
+    },
+    {
+      title: '操作',
+      render: (_: any, record: EndpointProfile) => (
+        <Space>
+          <Button type="text" size="small" onClick={() => handleEdit(record)}>
+            编辑
+          </Button>
+          <Button type="text" status="danger" size="small" onClick={() => handleDelete(record.id)}>
+            删除
+          </Button>
+        </Space>
+      ),
+    },
+  ];
+
+  // 切换启用状态
+  const handleToggleEnabled = async (record: EndpointProfile, enabled: boolean) => {
+    try {
+      await ConfigManager.addOrUpdateEndpointProfile({ ...record, enabled });
+      Message.success(`${enabled ? '启用' : '停用'}成功`);
+      loadProfiles(); // 重新加载数据
+    } catch (error) {
+      console.error('更新endpoint状态失败:', error);
+      Message.error('操作失败');
+    }
+  };
+
+  // 提交表单
+  const handleSubmit = async (values: any) => {
+    try {
+      const profile: EndpointProfile = {
+        id: editingId || `ep-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+        name: values.name.trim(),
+        url: values.url.trim().replace(/\/+$/, ''), // 去除末尾的斜杠，接口路径由客户端拼接
+        auth: values.auth,
+        transport: values.transport,
+        transportSettings: values.transportSettings,
+        enabled: values.enabled !== false,
+        peerKeys: values.peerKeys || [],
+        domains: (values.domains || []).map((domain: string) => domain.trim()).filter(Boolean),
+      };
+      await ConfigManager.addOrUpdateEndpointProfile(profile);
+      Message.success(editingId ? '更新成功' : '添加成功');
+
+      setVisible(false);
+      form.resetFields();
+      loadProfiles(); // 重新加载数据
+    } catch (error) {
+      console.error('保存endpoint配置失败:', error);
+      Message.error(error instanceof Error ? error.message : '操作失败');
+    }
+  };
+
+  // 删除endpoint
+  const handleDelete = (id: string) => {
+    Modal.confirm({
+      title: '确认删除',
+      content: '确定要删除这个endpoint吗？发送队列中待发往它的数据也会被放弃。',
+      onOk: async () => {
+        try {
+          const success = await ConfigManager.deleteEndpointProfile(id);
+          if (success) {
+            Message.success('删除成功');
+            loadProfiles(); // 重新加载数据
+          } else {
+            Message.error('删除失败，未找到指定endpoint');
+          }
+        } catch (error) {
+          console.error('删除endpoint失败:', error);
+          Message.error('删除失败');
+        }
+      },
+    });
+  };
+
+  // 打开添加对话框
+  const handleAdd = () => {
+    form.resetFields();
+    form.setFieldsValue({
+      enabled: true,
+      auth: { type: 'none', customHeaders: [] },
+      transport: 'http-json',
+      peerKeys: [],
+      domains: [],
+    });
+    setEditingId(null);
+    setVisible(true);
+  };
+
+  // 打开编辑对话框
+  const handleEdit = (record: EndpointProfile) => {
+    form.setFieldsValue({
+      name: record.name,
+      url: record.url,
+      enabled: record.enabled,
+      auth: { type: 'none', customHeaders: [], ...record.auth },
+      transport: record.transport || 'http-json',
+      transportSettings: record.transportSettings,
+      peerKeys: record.peerKeys || [],
+      domains: record.domains || [],
+    });
+    setEditingId(record.id);
+    setVisible(true);
+  };
+
+  return (
+    <>
+      <Card
+        title="Endpoint 管理"
+        extra={<Button type="primary" onClick={handleAdd}>添加Endpoint</Button>}
+        loading={loading}
+      >
+        <div style={{ marginBottom: 16, color: '#86909c' }}>
+          服务配置中的上报接口地址是默认endpoint，接收所有对端和域名的数据；这里添加的endpoint只接收按对端和域名规则分配给它的数据。
+        </div>
+        <Table columns={columns} data={profiles} loading={loading} rowKey="id" />
+      </Card>
+
+      <Modal
+        title={editingId ? "编辑Endpoint" : "添加Endpoint"}
+        visible={visible}
+        onCancel={() => setVisible(false)}
+        footer={null}
+        unmountOnExit
+      >
+        <Form form={form} onSubmit={handleSubmit} layout="vertical">
+          <FormItem
+            label="名称"
+            field="name"
+            rules={[{ required: true, message: '请输入名称' }]}
+          >
+            <Input placeholder="例如：外部协作方中继" />
+          </FormItem>
+
+          <FormItem
+            label="接口地址"
+            field="url"
+            rules={[{ required: true, message: '请输入接口地址' }]}
+          >
+            <Input placeholder="请输入上报数据的接口地址" />
+          </FormItem>
+
+          <EndpointConnectionFields
+            authField="auth"
+            transportField="transport"
+            settingsField="transportSettings"
+          />
+
+          <FormItem
+            label="对端"
+            field="peerKeys"
+            extra="只把数据加密给选中的对端；不选表示所有对端（仍受对端和域名规则的启用设置约束）"
+          >
+            <Select mode="multiple" placeholder="所有对端" allowClear>
+              {peerKeys.map(peer => (
+                <Option key={peer.publicKey} value={peer.publicKey}>
+                  {peer.friendlyName}
+                </Option>
+              ))}
+            </Select>
+          </FormItem>
+
+          <FormItem
+            label="域名"
+            field="domains"
+            extra="输入后回车添加，支持 example.com、.example.com、*.example.com 写法；为空表示所有域名"
+          >
+            <InputTag placeholder="所有域名" allowClear saveOnBlur />
+          </FormItem>
+
+          <FormItem label="启用" field="enabled" triggerPropName="checked">
+            <Switch />
+          </FormItem>
+
+          <Space>
+            <Button onClick={() => setVisible(false)}>取消</Button>
+            <Button type="primary" htmlType="submit">
+              确定
+            </Button>
+          </Space>
+        </Form>
+      </Modal>
+    </>
+  );
+};
+
+export default EndpointProfiles;
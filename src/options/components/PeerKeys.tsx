@@ -46,6 +46,11 @@ const PeerKeys = () => {
       dataIndex: 'publicKey',
       render: (text: string) => '0x' + text,
     },
+    {
+      title: '浏览器名称',
+      dataIndex: 'serviceName',
+      render: (text: string) => text || '-',
+    },
     {
       title: '添加时间',
       dataIndex: 'addedTime',
@@ -91,6 +96,24 @@ const PeerKeys = () => {
         />
       ),
     },
+    {
+      title: (
+        <Space>
+          <span>接收数据</span>
+          <Tooltip content="启用后，会从endpoint拉取TA共享的数据并写入本地浏览器">
+            <IconQuestionCircle />
+          </Tooltip>
+        </Space>
+      ),
+      dataIndex: 'enableReceive',
+      render: (enableReceive: boolean, record: PeerKeyInfo) => (
+        <Switch
+          checked={!!enableReceive}
+          disabled={!!record.disabled}
+          onChange={(checked) => handleToggleReceive(record.publicKey, checked)}
+        />
+      ),
+    },
     {
       title: '操作',
       render: (_: any, record: PeerKeyInfo) => (
@@ -162,7 +185,10 @@ const PeerKeys = () => {
           friendlyName: values.friendlyName,
           notes: values.notes,
           globalEnabled: values.globalEnabled,
-          disabled: values.disabled
+          disabled: values.disabled,
+          serviceName: values.serviceName,
+          enableReceive: values.enableReceive,
+          rejectLegacyEnvelopes: values.rejectLegacyEnvelopes
         });
         Message.success('更新成功');
       } else {
@@ -172,7 +198,10 @@ const PeerKeys = () => {
           friendlyName: values.friendlyName,
           notes: values.notes,
           globalEnabled: values.globalEnabled,
-          disabled: values.disabled
+          disabled: values.disabled,
+          serviceName: values.serviceName,
+          enableReceive: values.enableReceive,
+          rejectLegacyEnvelopes: values.rejectLegacyEnvelopes
         });
         Message.success('添加成功');
       }
@@ -204,6 +233,18 @@ const PeerKeys = () => {
     }
   };
 
+  // 切换接收状态
+  const handleToggleReceive = async (publicKey: string, enableReceive: boolean) => {
+    try {
+      await ConfigManager.updatePeerKey(publicKey, { enableReceive });
+      Message.success(`${enableReceive ? '启用' : '关闭'}接收成功`);
+      loadPeerKeys(); // 重新加载数据
+    } catch (error) {
+      console.error('更新接收状态失败:', error);
+      Message.error('操作失败');
+    }
+  };
+
   // 删除公钥
   const handleDelete = (publicKey: string) => {
     // 处理可能带有0x前缀的公钥
@@ -248,7 +289,10 @@ const PeerKeys = () => {
       publicKey: '0x' + record.publicKey,
       notes: record.notes || '',
       globalEnabled: record.globalEnabled,
-      disabled: record.disabled
+      disabled: record.disabled,
+      serviceName: record.serviceName || '',
+      enableReceive: !!record.enableReceive,
+      rejectLegacyEnvelopes: !!record.rejectLegacyEnvelopes
     });
     setIsEditMode(true); // 设置为编辑模式
     setVisible(true);
@@ -365,6 +409,14 @@ const PeerKeys = () => {
             />
           </FormItem>
 
+          <FormItem
+            label="浏览器名称"
+            field="serviceName"
+            extra="对端在服务配置中填写的浏览器名称，接收数据时用于计算数据标识"
+          >
+            <Input placeholder="可选，接收数据时需要填写" />
+          </FormItem>
+
           <FormItem
             label="备注"
             field="notes"
@@ -410,6 +462,22 @@ const PeerKeys = () => {
             }
             }
           </FormItem>
+          <FormItem
+            label="接收数据"
+            field="enableReceive"
+            triggerPropName="checked"
+            extra="启用后，会从endpoint拉取此对端共享的数据并写入本地浏览器"
+          >
+            <Switch />
+          </FormItem>
+          <FormItem
+            label="拒绝旧版数据"
+            field="rejectLegacyEnvelopes"
+            triggerPropName="checked"
+            extra="对端已升级到新版本扩展后建议开启。旧版数据的签名不绑定发送者和数据标识，可能被挪用到其他域名"
+          >
+            <Switch />
+          </FormItem>
           <Space>
             <Button onClick={() => setVisible(false)}>取消</Button>
             <Button type="primary" htmlType="submit">
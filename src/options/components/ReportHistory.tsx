@@ -106,6 +106,11 @@ const ReportHistory = () => {
       title: '域名',
       dataIndex: 'domain',
     },
+    {
+      title: 'Endpoint',
+      dataIndex: 'endpointName',
+      render: (name: string) => name || '默认',
+    },
     {
       title: '数据标识',
       dataIndex: 'dataIdentifier',
@@ -137,6 +142,11 @@ const ReportHistory = () => {
       title: 'Cookie条数',
       dataIndex: 'cookieCount',
     },
+    {
+      title: '删除条数',
+      dataIndex: 'removedCookieCount',
+      render: (count?: number) => count || 0,
+    },
     {
       title: 'Header条数',
       dataIndex: 'headerCount',
@@ -187,6 +197,11 @@ const ReportHistory = () => {
         </span>
       ),
     },
+    {
+      title: '发送次数',
+      dataIndex: 'attempt',
+      render: (attempt?: number) => attempt || 1,
+    },
     {
       title: '错误信息',
       dataIndex: 'errorMessage',
@@ -1,11 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { Card, Input, Button, Table, Space, Modal, Form, Message, Switch, Tag, Spin, Empty, Radio, AutoComplete, Tabs } from '@arco-design/web-react';
+import { Card, Input, Button, Table, Space, Modal, Form, Message, Switch, Tag, Spin, Empty, Radio, AutoComplete, Tabs, Select } from '@arco-design/web-react';
 import { IconSearch, IconPlus } from '@arco-design/web-react/icon';
-import ConfigManager, { DomainConfig, PeerKeyInfo } from '../../service/config';
+import ConfigManager, { DomainConfig, HeaderSnapshotRule, PeerKeyInfo } from '../../service/config';
+import { DEFAULT_COOKIE_STORE_ID } from '../../utils/cookieStores';
 
 const FormItem = Form.Item;
 const { TextArea } = Input;
 const TabPane = Tabs.TabPane;
+const Option = Select.Option;
 
 const ReportRules = () => {
   const [form] = Form.useForm();
@@ -22,6 +24,7 @@ const ReportRules = () => {
   const [headerOptions, setHeaderOptions] = useState<string[]>([]);
   const [peerKeys, setPeerKeys] = useState<PeerKeyInfo[]>([]);
   const [activeTab, setActiveTab] = useState('basic');
+  const [cookieStoreIds, setCookieStoreIds] = useState<string[]>([DEFAULT_COOKIE_STORE_ID]);
   // 添加一个状态来强制更新UI
   const [peerListVersion, setPeerListVersion] = useState(0);
 
@@ -51,10 +54,26 @@ const ReportRules = () => {
     }
   };
 
+  // 加载浏览器当前可访问的Cookie存储
+  const loadCookieStores = async () => {
+    try {
+      const stores = await chrome.cookies.getAllCookieStores();
+      setCookieStoreIds(Array.from(new Set([DEFAULT_COOKIE_STORE_ID, ...stores.map(store => store.id)])));
+    } catch (error) {
+      console.error('加载Cookie存储失败:', error);
+    }
+  };
+
+  // 获取Cookie存储的显示名称
+  const getCookieStoreName = (storeId: string) => {
+    return storeId === DEFAULT_COOKIE_STORE_ID ? `默认存储 (${storeId})` : `存储 ${storeId}`;
+  };
+
   // 组件挂载时加载数据
   useEffect(() => {
     loadDomainConfigs();
     loadPeerKeys();
+    loadCookieStores();
     // 获取所有已知的请求头
     loadHeaderOptions();
   }, []);
@@ -94,6 +113,16 @@ const ReportRules = () => {
       title: '域名',
       dataIndex: 'domain',
       width: 200,
+      render: (domain: string, record: DomainConfig) => (
+        <Space>
+          <span>{domain}</span>
+          {record.matchRegistrableDomain && <Tag color="purple">注册域</Tag>}
+          {record.allowSync && !record.blocked && <Tag color="green">允许同步</Tag>}
+          {record.blocked && <Tag color="red">禁止同步</Tag>}
+          {record.includePartitionedCookies && <Tag color="cyan">分区Cookie</Tag>}
+          {(record.headerSnapshots || []).length > 0 && <Tag color="orange">请求头快照</Tag>}
+        </Space>
+      ),
     },
     {
       title: 'Cookie同步',
@@ -117,6 +146,12 @@ const ReportRules = () => {
         return <Switch checked={value} disabled />;
       },
     },
+    {
+      title: '接收数据',
+      dataIndex: 'enableReceive',
+      width: 100,
+      render: (value: boolean | undefined) => <Switch checked={!!value} disabled />,
+    },
     {
       title: '额外允许的对端',
       dataIndex: 'additionalPeers',
@@ -252,8 +287,15 @@ const ReportRules = () => {
       enableHeaderSync: record.enableHeaderSync === undefined ? 'inherit' : record.enableHeaderSync ? 'enable' : 'disable',
       includedHeaders: record.includedHeaders || [],
       excludedHeaders: record.excludedHeaders || [], 
+      headerSnapshots: record.headerSnapshots || [],
       additionalPeers: record.additionalPeers || [],
       disabledPeers: record.disabledPeers || [],
+      enableReceive: !!record.enableReceive,
+      matchRegistrableDomain: !!record.matchRegistrableDomain,
+      allowSync: !!record.allowSync,
+      blocked: !!record.blocked,
+      cookieStoreIds: record.cookieStoreIds || [],
+      includePartitionedCookies: !!record.includePartitionedCookies,
       notes: record.notes || '',
     });
     setIsEditMode(true);
@@ -265,12 +307,26 @@ const ReportRules = () => {
   const handleSubmit = async (values: any) => {
     try {
       const domain = isEditMode ? currentDomain : values.domain;
+
+      // 整理请求头快照规则，快照名称不能重复
+      const headerSnapshots: HeaderSnapshotRule[] = (values.headerSnapshots || [])
+        .map((rule: HeaderSnapshotRule) => ({
+          name: (rule.name || '').trim(),
+          pathPattern: (rule.pathPattern || '').trim() || undefined,
+          methods: (rule.methods || []).map(method => method.toUpperCase()),
+        }))
+        .filter((rule: HeaderSnapshotRule) => rule.name);
+      if (new Set(headerSnapshots.map(rule => rule.name)).size !== headerSnapshots.length) {
+        Message.error('请求头快照名称不能重复');
+        return;
+      }
       
       // 处理单选框值转换为布尔值或undefined
       const processedValues = {
         ...values,
         enableCookieSync: values.enableCookieSync === 'inherit' ? undefined : values.enableCookieSync === 'enable',
         enableHeaderSync: values.enableHeaderSync === 'inherit' ? undefined : values.enableHeaderSync === 'enable',
+        headerSnapshots,
         updateTime: Date.now(),
       };
       
@@ -391,10 +447,41 @@ const ReportRules = () => {
                 field="domain"
                 rules={[{ required: true, message: '请输入域名' }]}
                 disabled={isEditMode}
+                extra="支持 example.com（精确）、.example.com（含子域名）、*.example.com（仅子域名），多条规则匹配时最具体的规则生效"
               >
                 <Input placeholder="请输入域名，例如: example.com" />
               </FormItem>
 
+              <FormItem
+                label="应用到注册域"
+                field="matchRegistrableDomain"
+                tooltip="启用后，此规则会应用到同一注册域（eTLD+1）下的所有域名，优先级低于其他匹配的规则"
+                triggerPropName="checked"
+                initialValue={false}
+              >
+                <Switch />
+              </FormItem>
+
+              <FormItem
+                label="允许同步"
+                field="allowSync"
+                tooltip="白名单模式下只同步开启此项的规则匹配的域名；只用于设置Cookie、请求头或对端的规则可以关闭此项"
+                triggerPropName="checked"
+                initialValue={true}
+              >
+                <Switch />
+              </FormItem>
+
+              <FormItem
+                label="禁止同步"
+                field="blocked"
+                tooltip="启用后，无论同步策略如何，都不会同步此规则匹配的域名"
+                triggerPropName="checked"
+                initialValue={false}
+              >
+                <Switch />
+              </FormItem>
+
               <FormItem
                 label="Cookie同步"
                 field="enableCookieSync"
@@ -408,6 +495,31 @@ const ReportRules = () => {
                 </Radio.Group>
               </FormItem>
 
+              <FormItem
+                label="Cookie存储"
+                field="cookieStoreIds"
+                tooltip="采集哪些Cookie存储中的Cookie，可输入未列出的存储标识；隐身窗口由单独的实例采集，始终只使用隐身存储"
+                initialValue={[]}
+              >
+                <Select mode="multiple" placeholder="默认存储" allowCreate allowClear>
+                  {cookieStoreIds.map(storeId => (
+                    <Option key={storeId} value={storeId}>
+                      {getCookieStoreName(storeId)}
+                    </Option>
+                  ))}
+                </Select>
+              </FormItem>
+
+              <FormItem
+                label="包含分区Cookie"
+                field="includePartitionedCookies"
+                tooltip="启用后同时采集以 Partitioned 属性设置的分区Cookie（CHIPS），数据中保留分区键，接收方写入相同的分区"
+                triggerPropName="checked"
+                initialValue={false}
+              >
+                <Switch />
+              </FormItem>
+
               <FormItem
                 label="请求头同步"
                 field="enableHeaderSync"
@@ -421,6 +533,16 @@ const ReportRules = () => {
                 </Radio.Group>
               </FormItem>
 
+              <FormItem
+                label="接收数据"
+                field="enableReceive"
+                tooltip="启用后，会从启用接收的对端拉取此域名的数据并写入本地浏览器"
+                triggerPropName="checked"
+                initialValue={false}
+              >
+                <Switch />
+              </FormItem>
+
               <FormItem
                 label="备注"
                 field="notes"
@@ -433,7 +555,7 @@ const ReportRules = () => {
               <FormItem
                 label="包含的请求头"
                 field="includedHeaders"
-                tooltip="指定需要同步的请求头，如果为空则同步所有非排除的请求头"
+                tooltip="指定需要同步的请求头，支持 x-* 这样的通配符，如果为空则同步所有非排除的请求头"
               >
                 <div>
                   <Space wrap style={{ marginBottom: 8 }}>
@@ -470,7 +592,7 @@ const ReportRules = () => {
                     )}
                   </Space>
                   <div style={{ color: '#86909c', fontSize: 12 }}>
-                    如果为空，则同步所有非排除的请求头
+                    如果为空，则同步所有非排除的请求头；优先级：域名排除 &gt; 域名包含 &gt; 全局排除 &gt; 全局包含
                   </div>
                 </div>
               </FormItem>
@@ -478,7 +600,7 @@ const ReportRules = () => {
               <FormItem
                 label="排除的请求头"
                 field="excludedHeaders"
-                tooltip="指定不需要同步的请求头"
+                tooltip="指定不需要同步的请求头，支持 x-* 这样的通配符"
               >
                 <div>
                   <Space wrap style={{ marginBottom: 8 }}>
@@ -519,6 +641,41 @@ const ReportRules = () => {
                   </div>
                 </div>
               </FormItem>
+
+              <FormItem
+                label="请求头快照"
+                tooltip="匹配路径和请求方法的请求，其完整请求头单独保存为一个快照并记录来源URL和采集时间；设置快照后只按快照同步请求头"
+              >
+                <Form.List field="headerSnapshots">
+                  {(fields, { add, remove }) => (
+                    <Space direction="vertical" style={{ width: '100%' }}>
+                      {fields.map((item, index) => (
+                        <Space key={item.key}>
+                          <FormItem field={`${item.field}.name`} noStyle rules={[{ required: true, message: '请输入快照名称' }]}>
+                            <Input placeholder="快照名称，例如 api" style={{ width: 140 }} />
+                          </FormItem>
+                          <FormItem field={`${item.field}.pathPattern`} noStyle>
+                            <Input placeholder="路径，例如 /api/v1/*" style={{ width: 200 }} />
+                          </FormItem>
+                          <FormItem field={`${item.field}.methods`} noStyle>
+                            <Select mode="multiple" placeholder="所有方法" style={{ width: 180 }} allowClear>
+                              {['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].map(method => (
+                                <Option key={method} value={method}>{method}</Option>
+                              ))}
+                            </Select>
+                          </FormItem>
+                          <Button size="small" status="danger" onClick={() => remove(index)}>
+                            删除
+                          </Button>
+                        </Space>
+                      ))}
+                      <Button size="small" type="dashed" onClick={() => add({ name: '', pathPattern: '', methods: [] })}>
+                        添加快照
+                      </Button>
+                    </Space>
+                  )}
+                </Form.List>
+              </FormItem>
             </TabPane>
 
             <TabPane key="peers" title="对端设置">
@@ -1,16 +1,19 @@
 import React, { useState, useEffect } from 'react';
-import { Card, Input, Button, Form, Message, Switch, InputNumber, Typography, Space, Modal, Radio } from '@arco-design/web-react';
-import ConfigManager, { BaseConfig } from '../../service/config';
+import { Card, Input, InputTag, Button, Form, Message, Switch, InputNumber, Typography, Space, Modal, Radio, Select } from '@arco-design/web-react';
+import ConfigManager, { BaseConfig, PeerKeyInfo, PrivateKeyLockedError } from '../../service/config';
 import { generateKeyPair, getKeyPairFromPrivateKey } from '../../utils/crypto';
+import EndpointConnectionFields from './EndpointConnectionFields';
 
 const FormItem = Form.Item;
 const { Text } = Typography;
 const RadioGroup = Radio.Group;
+const Option = Select.Option;
 
 const ServiceConfig = () => {
   const [form] = Form.useForm();
   const [loading, setLoading] = useState(true);
   const [syncLoading, setSyncLoading] = useState(false);
+  const [receiveLoading, setReceiveLoading] = useState(false);
   const [lastSyncTime, setLastSyncTime] = useState<string | null>(null);
   const [nextSyncTime, setNextSyncTime] = useState<string | null>(null);
   const [autoSyncEnabled, setAutoSyncEnabled] = useState(false);
@@ -20,13 +23,29 @@ const ServiceConfig = () => {
   const [inputPrivateKey, setInputPrivateKey] = useState('');
   const [cookieSyncEnabled, setCookieSyncEnabled] = useState(true);
   const [headerSyncEnabled, setHeaderSyncEnabled] = useState(true);
+  const [keyProtected, setKeyProtected] = useState(false);
+  const [keyLocked, setKeyLocked] = useState(false);
+  const [passphraseModalVisible, setPassphraseModalVisible] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseConfirm, setPassphraseConfirm] = useState('');
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+  const [peerKeys, setPeerKeys] = useState<PeerKeyInfo[]>([]);
 
   // 组件加载时获取配置
   useEffect(() => {
     const fetchConfig = async () => {
       try {
         const config = await ConfigManager.getBaseConfig();
-        form.setFieldsValue(config);
+        form.setFieldsValue({
+          ...config,
+          syncPolicy: config.syncPolicy || 'denylist', // 旧配置没有同步策略，按原有行为处理
+          endpointAuth: {
+            type: 'none',
+            customHeaders: [],
+            ...config.endpointAuth
+          },
+          endpointTransport: config.endpointTransport || 'http-json'
+        });
 
         setAutoSyncEnabled(config.enableAutoSync);
         setCookieSyncEnabled(config.enableCookieSync);
@@ -45,9 +64,15 @@ const ServiceConfig = () => {
           setNextSyncTime(nextDate.toLocaleString('zh-CN'));
         }
 
+        // 获取对端列表，用于选择默认endpoint的对端
+        setPeerKeys(await ConfigManager.getAllPeerKeys());
+
         // 获取公钥
         const pubKey = await ConfigManager.getPublicKey();
         setPublicKey(pubKey);
+
+        // 获取私钥保护状态
+        await refreshKeyStatus();
       } catch (error) {
         Message.error('获取配置失败');
         console.error('获取配置失败:', error);
@@ -59,6 +84,12 @@ const ServiceConfig = () => {
     fetchConfig();
   }, [form]);
 
+  // 刷新私钥保护和锁定状态
+  const refreshKeyStatus = async () => {
+    setKeyProtected(await ConfigManager.isPrivateKeyProtected());
+    setKeyLocked(await ConfigManager.isPrivateKeyLocked());
+  };
+
   // 处理主动同步
   const handleForceSyncClick = async () => {
     try {
@@ -133,6 +164,46 @@ const ServiceConfig = () => {
     }
   };
 
+  // 取消正在进行的同步
+  const handleCancelSyncClick = async () => {
+    try {
+      const result = await chrome.runtime.sendMessage({
+        type: 'CANCEL_SYNC'
+      });
+      if (result && result.success) {
+        Message.info(result.message || '已取消同步');
+      } else {
+        Message.warning(result?.message || '当前没有正在进行的同步');
+      }
+    } catch (error) {
+      Message.error('取消同步失败');
+      console.error('取消同步失败:', error);
+    }
+  };
+
+  // 处理接收数据
+  const handleReceiveClick = async () => {
+    try {
+      setReceiveLoading(true);
+      
+      // 向 worker 发送接收数据消息
+      const result = await chrome.runtime.sendMessage({
+        type: 'RECEIVE_SYNC'
+      });
+      
+      if (result && result.success) {
+        Message.success(result.message || '接收成功');
+      } else {
+        Message.error(`接收失败: ${result?.message || '未知错误'}`);
+      }
+    } catch (error) {
+      Message.error('接收请求失败');
+      console.error('接收请求失败:', error);
+    } finally {
+      setReceiveLoading(false);
+    }
+  };
+
   // 处理Cookie同步开关变化
   const handleCookieSyncChange = async (checked: boolean) => {
     setCookieSyncEnabled(checked);
@@ -183,7 +254,9 @@ const ServiceConfig = () => {
       // 保留原来的 lastSyncTime 和同步设置
       const currentConfig = await ConfigManager.getBaseConfig();
       const newConfig = {
+        ...currentConfig, // 保留表单之外的配置（私钥、口令保护等）
         ...values,
+        endpointDomains: (values.endpointDomains || []).map((domain: string) => domain.trim()).filter(Boolean),
         privateKey: currentConfig.privateKey, // 保持原有 privateKey 的值，不进行更新
         lastSyncTime: currentConfig.lastSyncTime,
         enableCookieSync: cookieSyncEnabled, // 使用当前状态的值
@@ -239,6 +312,10 @@ const ServiceConfig = () => {
         Message.error('未找到私钥');
       }
     } catch (error) {
+      if (error instanceof PrivateKeyLockedError) {
+        Message.warning('私钥已锁定，请先解锁');
+        return;
+      }
       Message.error('复制私钥失败');
       console.error('复制私钥失败:', error);
     }
@@ -303,6 +380,83 @@ const ServiceConfig = () => {
     }
   };
 
+  // 打开设置口令对话框
+  const handleOpenPassphraseModal = () => {
+    setPassphrase('');
+    setPassphraseConfirm('');
+    setPassphraseModalVisible(true);
+  };
+
+  // 确认设置口令
+  const handleConfirmPassphrase = async () => {
+    if (passphrase.length < 8) {
+      Message.error('口令长度至少8位');
+      return;
+    }
+    if (passphrase !== passphraseConfirm) {
+      Message.error('两次输入的口令不一致');
+      return;
+    }
+    try {
+      setLoading(true);
+      await ConfigManager.setPrivateKeyPassphrase(passphrase);
+      await refreshKeyStatus();
+      Message.success('私钥已使用口令加密保存');
+      setPassphraseModalVisible(false);
+    } catch (error) {
+      Message.error(error instanceof Error ? error.message : '设置口令失败');
+      console.error('设置口令失败:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 移除口令保护
+  const handleRemovePassphrase = () => {
+    Modal.confirm({
+      title: '移除口令保护',
+      content: '移除后私钥将以明文形式保存在本地，确定要移除吗？',
+      onOk: async () => {
+        try {
+          await ConfigManager.removePrivateKeyPassphrase();
+          await refreshKeyStatus();
+          Message.success('已移除口令保护');
+        } catch (error) {
+          Message.error(error instanceof Error ? error.message : '移除口令保护失败');
+          console.error('移除口令保护失败:', error);
+        }
+      },
+    });
+  };
+
+  // 使用口令解锁私钥
+  const handleUnlock = async () => {
+    try {
+      setLoading(true);
+      await ConfigManager.unlockPrivateKey(unlockPassphrase);
+      setUnlockPassphrase('');
+      await refreshKeyStatus();
+      Message.success('私钥已解锁');
+    } catch (error) {
+      Message.error(error instanceof Error ? error.message : '解锁失败');
+      console.error('解锁私钥失败:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 立即锁定私钥
+  const handleLock = async () => {
+    try {
+      await ConfigManager.lockPrivateKey();
+      await refreshKeyStatus();
+      Message.success('私钥已锁定');
+    } catch (error) {
+      Message.error('锁定私钥失败');
+      console.error('锁定私钥失败:', error);
+    }
+  };
+
   return (
     <Card title="服务配置">
       <Form
@@ -330,20 +484,101 @@ const ServiceConfig = () => {
               <Button size="small" type="secondary" onClick={handleCopyPrivateKey}>
                 复制私钥
               </Button>
-              <Button size="small" type="primary" onClick={handleChangePrivateKey}>
+              <Button size="small" type="primary" onClick={handleChangePrivateKey} disabled={keyProtected}>
                 {publicKey ? '更换密钥' : '新增密钥'}
               </Button>
             </Space>
           </div>
+          {keyProtected && (
+            <Text type="secondary">私钥受口令保护，如需更换密钥请先移除口令保护</Text>
+          )}
+        </FormItem>
+
+        <FormItem
+          label="私钥保护"
+          extra="设置口令后私钥只以加密形式保存，解锁后的私钥只保存在浏览器会话内存中，超时自动锁定"
+        >
+          <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+            <Text>
+              {!keyProtected ? '未设置口令' : (keyLocked ? '已锁定' : '已解锁')}
+            </Text>
+            {!keyProtected && (
+              <Button size="small" type="primary" onClick={handleOpenPassphraseModal} disabled={!publicKey}>
+                设置口令
+              </Button>
+            )}
+            {keyProtected && keyLocked && (
+              <Space>
+                <Input.Password
+                  size="small"
+                  placeholder="请输入口令"
+                  value={unlockPassphrase}
+                  onChange={setUnlockPassphrase}
+                  onPressEnter={handleUnlock}
+                  style={{ width: 200 }}
+                />
+                <Button size="small" type="primary" onClick={handleUnlock}>
+                  解锁
+                </Button>
+              </Space>
+            )}
+            {keyProtected && !keyLocked && (
+              <Space>
+                <Button size="small" type="secondary" onClick={handleLock}>
+                  立即锁定
+                </Button>
+                <Button size="small" status="danger" onClick={handleRemovePassphrase}>
+                  移除口令
+                </Button>
+              </Space>
+            )}
+          </div>
+        </FormItem>
+
+        <FormItem
+          label="自动锁定(分钟)"
+          field="autoLockMinutes"
+          extra="解锁后经过该时间自动锁定私钥，0 表示不自动锁定（关闭浏览器后仍需重新解锁）"
+        >
+          <InputNumber min={0} max={1440} style={{ maxWidth: '50%' }} />
         </FormItem>
 
         <FormItem
           label="上报接口地址"
           field="endpoint"
-          rules={[{ required: true, message: '请输入上报接口地址' }]}
+          extra="默认endpoint；留空表示不使用默认endpoint，只发送到 Endpoint 管理 中添加的endpoint"
         >
           <Input placeholder="请输入上报数据的接口地址" style={{ maxWidth: '50%' }} />
         </FormItem>
+
+        <EndpointConnectionFields
+          authField="endpointAuth"
+          transportField="endpointTransport"
+          settingsField="endpointTransportSettings"
+          inputStyle={{ maxWidth: '50%' }}
+        />
+
+        <FormItem
+          label="默认endpoint的对端"
+          field="endpointPeerKeys"
+          extra="只把数据加密给选中的对端；不选表示所有对端。发往其他endpoint的对端不应在此选中"
+        >
+          <Select mode="multiple" placeholder="所有对端" allowClear style={{ maxWidth: '50%' }}>
+            {peerKeys.map(peer => (
+              <Option key={peer.publicKey} value={peer.publicKey}>
+                {peer.friendlyName}
+              </Option>
+            ))}
+          </Select>
+        </FormItem>
+
+        <FormItem
+          label="默认endpoint的域名"
+          field="endpointDomains"
+          extra="输入后回车添加，支持 example.com、.example.com、*.example.com 写法；为空表示所有域名"
+        >
+          <InputTag placeholder="所有域名" allowClear saveOnBlur style={{ maxWidth: '50%' }} />
+        </FormItem>
         
         <FormItem
           label="同步间隔(分钟)"
@@ -353,6 +588,64 @@ const ServiceConfig = () => {
           <InputNumber min={1} max={1440} defaultValue={5} style={{ maxWidth: '50%' }} />
         </FormItem>
 
+        <div style={{ display: 'flex', gap: '20px', maxWidth: '50%' }}>
+          <FormItem
+            label="单个请求最大大小(KB)"
+            field="maxPayloadKB"
+            extra="数据超过限制时分批发送"
+            style={{ flex: 1 }}
+          >
+            <InputNumber min={16} max={102400} placeholder="默认 512" />
+          </FormItem>
+          <FormItem
+            label="单个请求最多数据项"
+            field="maxItemsPerRequest"
+            extra="每个域名的数据为一项"
+            style={{ flex: 1 }}
+          >
+            <InputNumber min={1} max={10000} placeholder="默认 100" />
+          </FormItem>
+        </div>
+
+        <FormItem
+          label="请求超时(秒)"
+          field="requestTimeoutSeconds"
+          extra="单个请求超过该时间未响应时中止，未发送成功的数据进入重试队列"
+        >
+          <InputNumber min={5} max={600} placeholder="默认 30" style={{ maxWidth: '50%' }} />
+        </FormItem>
+
+        <div style={{ display: 'flex', gap: '20px', maxWidth: '50%' }}>
+          <FormItem
+            label="增量同步"
+            field="enableDeltaSync"
+            triggerPropName="checked"
+            extra="只发送新增、修改和删除的Cookie以及变化的请求头"
+            style={{ flex: 1 }}
+          >
+            <Switch />
+          </FormItem>
+          <FormItem
+            label="全量快照间隔(分钟)"
+            field="fullSnapshotMinutes"
+            extra="增量模式下定期发送全部数据"
+            style={{ flex: 1 }}
+          >
+            <InputNumber min={5} max={10080} placeholder="默认 60" />
+          </FormItem>
+        </div>
+
+        <FormItem
+          label="同步策略"
+          field="syncPolicy"
+          extra="白名单模式只同步匹配规则开启允许同步的域名；黑名单模式同步除被禁止域名外的所有域名"
+        >
+          <RadioGroup>
+            <Radio value="allowlist">白名单（只同步规则允许的域名）</Radio>
+            <Radio value="denylist">黑名单（同步除禁止外的所有域名）</Radio>
+          </RadioGroup>
+        </FormItem>
+
         {/* 全局同步控制 */}
         <FormItem label="全局同步控制" style={{ maxWidth: '50%' }}>
           <div style={{ display: 'flex', justifyContent: 'space-between' }}>
@@ -379,6 +672,15 @@ const ServiceConfig = () => {
           </div>
         </FormItem>
 
+        <FormItem
+          label="采集隐藏请求头"
+          field="captureExtraHeaders"
+          triggerPropName="checked"
+          extra="启用后以 extraHeaders 方式监听请求，可以采集浏览器默认不提供的 Cookie、Referer、Origin、部分请求的 Authorization 等请求头；这些请求头往往携带登录凭据，会在弹窗的请求头列表中标记为高风险"
+        >
+          <Switch />
+        </FormItem>
+
         <div style={{ display: 'flex', justifyContent: 'space-between', maxWidth: '50%' }}>
           <FormItem
             label="自动同步"
@@ -398,6 +700,74 @@ const ServiceConfig = () => {
           )}
         </div>
 
+        <FormItem
+          label="接收模式"
+          field="enableReceive"
+          triggerPropName="checked"
+          extra="启用后，自动同步时会从启用接收的对端拉取已启用接收的域名数据，并写入本地浏览器"
+        >
+          <Switch />
+        </FormItem>
+
+        <FormItem
+          label="隐身窗口同步"
+          field="enableIncognitoSync"
+          triggerPropName="checked"
+          extra="还需在扩展管理页允许在无痕模式下运行。隐身窗口使用独立的域名规则、对端列表和数据标识，不与普通窗口的数据混用；最后一个隐身窗口关闭时清除采集的数据。从隐身窗口打开设置页可编辑隐身窗口的域名规则和对端"
+        >
+          <Switch />
+        </FormItem>
+
+        <FormItem
+          label="CookieCloud 兼容导出"
+          field="cookieCloudExport.enabled"
+          triggerPropName="checked"
+          extra="启用后，同步时把选定域名的Cookie按原版格式加密上传到原版 CookieCloud 服务端，原版浏览器插件和工具可以直接读取"
+        >
+          <Switch />
+        </FormItem>
+
+        <FormItem
+          noStyle
+          shouldUpdate={(prevValues, currentValues) =>
+            prevValues.cookieCloudExport?.enabled !== currentValues.cookieCloudExport?.enabled
+          }
+        >
+          {(values) => values.cookieCloudExport?.enabled && (
+            <>
+              <FormItem
+                label="原版服务器地址"
+                field="cookieCloudExport.url"
+                rules={[{ required: true, message: '请输入服务器地址' }]}
+              >
+                <Input placeholder="原版 CookieCloud 服务器地址" style={{ maxWidth: '50%' }} />
+              </FormItem>
+              <FormItem
+                label="用户KEY"
+                field="cookieCloudExport.uuid"
+                rules={[{ required: true, message: '请输入用户KEY' }]}
+              >
+                <Input placeholder="原版 CookieCloud 的用户KEY（uuid）" style={{ maxWidth: '50%' }} />
+              </FormItem>
+              <FormItem
+                label="端对端加密密码"
+                field="cookieCloudExport.password"
+                rules={[{ required: true, message: '请输入密码' }]}
+              >
+                <Input.Password placeholder="原版 CookieCloud 的端对端加密密码" style={{ maxWidth: '50%' }} />
+              </FormItem>
+              <FormItem
+                label="导出域名"
+                field="cookieCloudExport.domains"
+                extra="输入后回车添加，example.com 包含子域名，*.example.com 只包含子域名；导出的Cookie同样受Cookie过滤规则约束"
+                rules={[{ required: true, message: '请至少添加一个域名' }]}
+              >
+                <InputTag placeholder="请输入要导出的域名" allowClear saveOnBlur style={{ maxWidth: '50%' }} />
+              </FormItem>
+            </>
+          )}
+        </FormItem>
+
         <FormItem label="最后同步时间">
           <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
             <Text>{lastSyncTime ? lastSyncTime : "还没同步过哦"}</Text>
@@ -419,6 +789,24 @@ const ServiceConfig = () => {
               >
                 强制同步
               </Button>
+              {syncLoading && (
+                <Button 
+                  type="secondary" 
+                  status="danger" 
+                  size="small" 
+                  onClick={handleCancelSyncClick}
+                >
+                  取消
+                </Button>
+              )}
+              <Button 
+                type="secondary" 
+                size="small" 
+                loading={receiveLoading}
+                onClick={handleReceiveClick}
+              >
+                接收
+              </Button>
             </Space>
           </div>
         </FormItem>
@@ -462,6 +850,31 @@ const ServiceConfig = () => {
           </Text>
         </div>
       </Modal>
+
+      {/* 设置口令对话框 */}
+      <Modal
+        title="设置私钥口令"
+        visible={passphraseModalVisible}
+        onOk={handleConfirmPassphrase}
+        onCancel={() => setPassphraseModalVisible(false)}
+        confirmLoading={loading}
+      >
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Input.Password
+            placeholder="请输入口令（至少8位）"
+            value={passphrase}
+            onChange={setPassphrase}
+          />
+          <Input.Password
+            placeholder="请再次输入口令"
+            value={passphraseConfirm}
+            onChange={setPassphraseConfirm}
+          />
+          <Text type="warning">
+            注意：口令无法找回，忘记口令将无法解锁私钥，请先复制并备份私钥。
+          </Text>
+        </Space>
+      </Modal>
     </Card>
   );
 };
@@ -2,13 +2,14 @@ import React, { useState } from 'react';
 import ReactDOM from 'react-dom/client';
 import '@arco-design/web-react/dist/css/arco.css';
 import './options.css';
-import { Layout, Menu, Typography, ConfigProvider } from '@arco-design/web-react';
+import { Layout, Menu, Typography, ConfigProvider, Alert } from '@arco-design/web-react';
 import {
   IconSettings,
   IconLock,
   IconHistory,
   IconTool,
-  IconStorage
+  IconStorage,
+  IconCloud
 } from '@arco-design/web-react/icon';
 
 // 导入子页面组件
@@ -17,6 +18,8 @@ import PeerKeys from './components/PeerKeys';
 import ReportHistory from './components/ReportHistory';
 import DataManagement from './components/DataManagement';
 import ReportRules from './components/ReportRules';
+import EndpointProfiles from './components/EndpointProfiles';
+import { isIncognitoContext } from '../utils/incognito';
 
 const { Sider, Content } = Layout;
 const MenuItem = Menu.Item;
@@ -38,6 +41,8 @@ const Options = () => {
         return <ReportRules />;
       case '5':
         return <DataManagement />;
+      case '6':
+        return <EndpointProfiles />;
       default:
         return <ServiceConfig />;
     }
@@ -58,6 +63,9 @@ const Options = () => {
             <MenuItem key="1">
               <IconSettings /> 服务配置
             </MenuItem>
+            <MenuItem key="6">
+              <IconCloud /> Endpoint 管理
+            </MenuItem>
             <MenuItem key="2">
               <IconLock /> 对端管理
             </MenuItem>
@@ -73,6 +81,13 @@ const Options = () => {
           </Menu>
         </Sider>
         <Content className="options-content">
+          {isIncognitoContext() && (
+            <Alert
+              type="warning"
+              style={{ marginBottom: 16 }}
+              content="当前是隐身窗口的设置页：上报规则、对端管理和发送记录只作用于隐身窗口，服务配置和Endpoint与普通窗口共用"
+            />
+          )}
           {renderContent()}
         </Content>
       </Layout>
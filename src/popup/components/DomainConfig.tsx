@@ -5,11 +5,16 @@ import {
   Typography, 
   Space, 
   Empty,
-  Radio
+  Radio,
+  Tag,
+  Tooltip
 } from '@arco-design/web-react';
 import '@arco-design/web-react/dist/css/arco.css';
 import { IconSync, IconClockCircle } from '@arco-design/web-react/icon';
-import ConfigManager, { PeerKeyInfo, DomainConfig } from '../../service/config';
+import ConfigManager, { PeerKeyInfo, DomainConfig, DomainSyncConfig } from '../../service/config';
+import { FilterPolicy, isIncludedByPolicy, resolveDomainRuleDecision } from '../../utils/filterPolicy';
+import { isCookieInSelection } from '../../utils/cookieStores';
+import { isHighRiskHeader } from '../../utils/headerRisk';
 
 const { Text } = Typography;
 const TabPane = Tabs.TabPane;
@@ -31,11 +36,18 @@ interface HeaderItem {
   key: string;
   value: string;
   config: ConfigType;
+  uploaded: boolean;      // 按当前生效的过滤策略是否会同步
+  highRisk: boolean;      // 是否为携带登录凭据的高风险请求头
+}
+// Cookie
+interface CookieItem extends chrome.cookies.Cookie {
+  config: ConfigType;
+  uploaded: boolean;      // 按当前生效的过滤策略是否会同步
 }
 // 域名数据接口
 interface DomainData {
   domain: string;
-  cookies: chrome.cookies.Cookie[];
+  cookies: CookieItem[];
   headers: HeaderItem[];
 }
 
@@ -43,12 +55,56 @@ interface DomainConfigProps {
   domain: string;
 }
 
+/**
+ * 判断请求头按当前生效的配置是否会同步
+ * @param headerKey 请求头名称
+ * @param syncConfig 域名同步配置
+ * @param domainAllowed 域名是否允许同步（同步策略和禁止同步规则）
+ * @returns 是否同步
+ */
+const isHeaderUploaded = (headerKey: string, syncConfig: DomainSyncConfig, domainAllowed: boolean): boolean => {
+  return domainAllowed && syncConfig.enableHeaderSync && isIncludedByPolicy(headerKey, syncConfig.headerPolicy);
+};
+
+/**
+ * 判断Cookie按当前生效的配置是否会同步
+ * @param cookie Cookie对象
+ * @param syncConfig 域名同步配置
+ * @param domainAllowed 域名是否允许同步（同步策略和禁止同步规则）
+ * @returns 是否同步
+ */
+const isCookieUploaded = (cookie: chrome.cookies.Cookie, syncConfig: DomainSyncConfig, domainAllowed: boolean): boolean => {
+  return domainAllowed &&
+    syncConfig.enableCookieSync &&
+    isCookieInSelection(cookie, syncConfig.cookieStores) &&
+    isIncludedByPolicy(cookie.name, syncConfig.cookiePolicy);
+};
+
+/**
+ * 获取名称在当前生效的域名规则中的配置状态
+ * 与同步时使用同一套过滤策略，通配符规则匹配的名称同样显示为允许或禁止
+ * @param name 请求头名称或Cookie名称
+ * @param policy 过滤策略
+ * @returns 配置状态
+ */
+const getRuleConfig = (name: string, policy: FilterPolicy): ConfigType => {
+  const decision = resolveDomainRuleDecision(name, policy);
+  if (decision === 'include') {
+    return 'allow';
+  }
+  if (decision === 'exclude') {
+    return 'deny';
+  }
+  return 'default';
+};
+
 const DomainConfigUI: React.FC<DomainConfigProps> = ({ domain }) => {
   const [sendCookies, setSendCookies] = useState<ConfigType>('default');
   const [sendHeaders, setSendHeaders] = useState<ConfigType>('default');
   const [peerConfigs, setPeerConfigs] = useState<PeerInfo[]>([]);
   const [loading, setLoading] = useState(false);
   const [domainData, setDomainData] = useState<DomainData | null>(null);
+  const [matchedRule, setMatchedRule] = useState<string | null>(null);
 
   // 获取域名数据和对端密钥
   useEffect(() => {
@@ -57,7 +113,11 @@ const DomainConfigUI: React.FC<DomainConfigProps> = ({ domain }) => {
     // 获取域名同步配置
     const loadSyncConfig = async () => {
       try {
-        const config = await ConfigManager.getDomainConfig(domain);
+        const config = await ConfigManager.getExactDomainConfig(domain);
+
+        // 没有精确规则时，提示当前生效的通配规则
+        const effectiveConfig = await ConfigManager.getDomainConfig(domain);
+        setMatchedRule(effectiveConfig && effectiveConfig.domain !== domain ? effectiveConfig.domain : null);
         
         // 设置Cookie同步状态
         if (config?.enableCookieSync === true) {
@@ -87,33 +147,34 @@ const DomainConfigUI: React.FC<DomainConfigProps> = ({ domain }) => {
     chrome.runtime.sendMessage(
       { type: 'GET_DOMAIN_DATA', domain },
       async (response) => {
-        const domainConfig = await ConfigManager.getDomainConfig(domain);
+        const domainConfig = await ConfigManager.getExactDomainConfig(domain);
+        const syncConfig = await ConfigManager.getDomainSyncConfig(domain);
+        const domainAllowed = await ConfigManager.isDomainSyncAllowed(domain);
 
         if (response && response.success && response.data) {
           // 将headers对象转换为数组格式
           const headersArray = response.data.headers 
             ? Object.entries(response.data.headers).map(([key, value]) => {
-                // 检查此请求头是否在包含列表或排除列表中
-                const isIncluded = domainConfig?.includedHeaders?.includes(key) || false;
-                const isExcluded = domainConfig?.excludedHeaders?.includes(key) || false;
-                // 确定此请求头的配置状态
-                let headerConfig: ConfigType = 'default';
-                if (isIncluded) {
-                  headerConfig = 'allow';
-                } else if (isExcluded) {
-                  headerConfig = 'deny';
-                }
                 return {
                   key,
                   value: value as string,
-                  config: headerConfig
+                  config: getRuleConfig(key, syncConfig.headerPolicy),
+                  uploaded: isHeaderUploaded(key, syncConfig, domainAllowed),
+                  highRisk: isHighRiskHeader(key)
                 };
               })
             : [];
           
+          // 根据生效的过滤策略确定每个Cookie的配置状态和是否同步
+          const cookiesArray = (response.data.cookies || []).map((cookie: chrome.cookies.Cookie) => ({
+            ...cookie,
+            config: getRuleConfig(cookie.name, syncConfig.cookiePolicy),
+            uploaded: isCookieUploaded(cookie, syncConfig, domainAllowed)
+          }));
+          
           setDomainData({
             domain: response.data.domain,
-            cookies: response.data.cookies || [],
+            cookies: cookiesArray,
             headers: headersArray,
           });
         }
@@ -181,6 +242,7 @@ const DomainConfigUI: React.FC<DomainConfigProps> = ({ domain }) => {
       
       // 更新域名配置
       await ConfigManager.addOrUpdateDomainConfig(domain, updateConfig);
+      await refreshSyncStatus();
     } catch (error) {
       console.error('更新Cookie同步设置失败:', error);
     }
@@ -208,13 +270,51 @@ const DomainConfigUI: React.FC<DomainConfigProps> = ({ domain }) => {
       
       // 更新域名配置
       await ConfigManager.addOrUpdateDomainConfig(domain, updateConfig);
+      await refreshSyncStatus();
     } catch (error) {
       console.error('更新请求头同步设置失败:', error);
     }
   };
 
+  // 按最新配置刷新Cookie和请求头的配置状态和同步状态
+  const refreshSyncStatus = async () => {
+    const syncConfig = await ConfigManager.getDomainSyncConfig(domain);
+    const domainAllowed = await ConfigManager.isDomainSyncAllowed(domain);
+    setDomainData(prevData => {
+      if (!prevData) return null;
+      
+      return {
+        ...prevData,
+        cookies: prevData.cookies.map(cookie => ({
+          ...cookie,
+          config: getRuleConfig(cookie.name, syncConfig.cookiePolicy),
+          uploaded: isCookieUploaded(cookie, syncConfig, domainAllowed)
+        })),
+        headers: prevData.headers.map(header => ({
+          ...header,
+          config: getRuleConfig(header.key, syncConfig.headerPolicy),
+          uploaded: isHeaderUploaded(header.key, syncConfig, domainAllowed)
+        }))
+      };
+    });
+  };
+
   // 定义Cookie表格列
   const cookieColumns = [
+    {
+      title: '-',
+      dataIndex: 'uploaded',
+      key: 'uploaded',
+      width: 40,
+      render: (uploaded: boolean) => (
+        <div style={{ textAlign: 'center' }}>
+          {uploaded ? 
+            <IconSync style={{ color: '#4CAF50' }} /> : 
+            <IconClockCircle style={{ color: '#FFC107' }} />
+          }
+        </div>
+      ),
+    },
     {
       title: '名称',
       dataIndex: 'name',
@@ -235,6 +335,24 @@ const DomainConfigUI: React.FC<DomainConfigProps> = ({ domain }) => {
         </Text>
       ),
     },
+    {
+      title: '配置',
+      dataIndex: 'config',
+      key: 'config',
+      width: 144,
+      render: (config: ConfigType, record: CookieItem) => (
+        <RadioGroup
+          type="button"
+          name={`cookie-config-${record.name}`}
+          value={config}
+          onChange={(value) => handleCookieConfigChange(record.name, value)}
+        >
+          <Radio value="allow">允</Radio>
+          <Radio value="deny">禁</Radio>
+          <Radio value="default">默</Radio>
+        </RadioGroup>
+      ),
+    },
   ];
 
   // 定义Header表格列
@@ -258,10 +376,17 @@ const DomainConfigUI: React.FC<DomainConfigProps> = ({ domain }) => {
       dataIndex: 'key',
       key: 'key',
       width: 120,
-      render: (value: string) => (
-        <Text ellipsis={{ showTooltip: true }}>
-          {value}
-        </Text>
+      render: (value: string, record: HeaderItem) => (
+        <Space size={4}>
+          <Text ellipsis={{ showTooltip: true }}>
+            {value}
+          </Text>
+          {record.highRisk && (
+            <Tooltip content="此请求头通常携带登录凭据，同步后对端可以直接使用该身份">
+              <Tag color="red" size="small">高风险</Tag>
+            </Tooltip>
+          )}
+        </Space>
       ),
     },
     {
@@ -346,6 +471,58 @@ const DomainConfigUI: React.FC<DomainConfigProps> = ({ domain }) => {
     },
   ];
 
+  // 处理Cookie配置变化
+  const handleCookieConfigChange = async (cookieName: string, value: ConfigType) => {
+    // 更新本地状态，使界面立即响应
+    setDomainData(prevData => {
+      if (!prevData) return null;
+      
+      return {
+        ...prevData,
+        cookies: prevData.cookies.map(cookie => 
+          cookie.name === cookieName ? { ...cookie, config: value } : cookie
+        )
+      };
+    });
+    
+    // 根据选择的值更新ConfigManager中的配置
+    try {
+      // 获取当前域名配置
+      const domainConfig = await ConfigManager.getExactDomainConfig(domain) || { domain };
+      
+      // 准备更新的配置对象
+      const updateConfig: Partial<Omit<DomainConfig, 'domain'>> = {
+        updateTime: Date.now()
+      };
+      
+      if (value === 'allow') {
+        // 允许: 添加到includedCookies，从excludedCookies中移除
+        updateConfig.includedCookies = [
+          ...(domainConfig.includedCookies || []).filter(name => name !== cookieName),
+          cookieName
+        ];
+        updateConfig.excludedCookies = (domainConfig.excludedCookies || []).filter(name => name !== cookieName);
+      } else if (value === 'deny') {
+        // 禁止: 添加到excludedCookies，从includedCookies中移除
+        updateConfig.excludedCookies = [
+          ...(domainConfig.excludedCookies || []).filter(name => name !== cookieName),
+          cookieName
+        ];
+        updateConfig.includedCookies = (domainConfig.includedCookies || []).filter(name => name !== cookieName);
+      } else {
+        // 默认: 从两个列表中都移除
+        updateConfig.includedCookies = (domainConfig.includedCookies || []).filter(name => name !== cookieName);
+        updateConfig.excludedCookies = (domainConfig.excludedCookies || []).filter(name => name !== cookieName);
+      }
+      
+      // 更新域名配置
+      await ConfigManager.addOrUpdateDomainConfig(domain, updateConfig);
+      await refreshSyncStatus();
+    } catch (error) {
+      console.error('更新Cookie配置失败:', error);
+    }
+  };
+
   // 处理请求头配置变化
   const handleHeaderConfigChange = async (headerKey: string, value: ConfigType) => {
     // 更新本地状态，使界面立即响应
@@ -363,7 +540,7 @@ const DomainConfigUI: React.FC<DomainConfigProps> = ({ domain }) => {
     // 根据选择的值更新ConfigManager中的配置
     try {
       // 获取当前域名配置
-      const domainConfig = await ConfigManager.getDomainConfig(domain) || { domain };
+      const domainConfig = await ConfigManager.getExactDomainConfig(domain) || { domain };
       
       // 准备更新的配置对象
       const updateConfig: Partial<Omit<DomainConfig, 'domain'>> = {
@@ -392,6 +569,7 @@ const DomainConfigUI: React.FC<DomainConfigProps> = ({ domain }) => {
       
       // 更新域名配置
       await ConfigManager.addOrUpdateDomainConfig(domain, updateConfig);
+      await refreshSyncStatus();
     } catch (error) {
       console.error('更新请求头配置失败:', error);
     }
@@ -408,7 +586,7 @@ const DomainConfigUI: React.FC<DomainConfigProps> = ({ domain }) => {
     // 根据选择的值更新ConfigManager中的配置
     try {
       // 获取当前域名配置
-      const domainConfig = await ConfigManager.getDomainConfig(domain) || { domain };
+      const domainConfig = await ConfigManager.getExactDomainConfig(domain) || { domain };
       
       // 准备更新的配置对象
       const updateConfig: Partial<Omit<DomainConfig, 'domain'>> = {
@@ -442,6 +620,11 @@ const DomainConfigUI: React.FC<DomainConfigProps> = ({ domain }) => {
   return (
     <div>
       <Space direction="vertical" style={{ width: '100%' }}>
+        {matchedRule && (
+          <Text type="secondary">
+            当前生效规则: {matchedRule}（在此修改会为 {domain} 创建单独的规则）
+          </Text>
+        )}
         <Tabs>
           <TabPane key="peers" title={
             <Space>
@@ -6,10 +6,15 @@ import {
   Typography, 
   Result, 
   Space,
-  Select
+  Select,
+  Alert,
+  Input,
+  Button,
+  Message
 } from '@arco-design/web-react';
 import { IconSettings } from '@arco-design/web-react/icon';
 import DomainConfig from './components/DomainConfig';
+import ConfigManager from '../service/config';
 import './popup.css';
 
 const { Text } = Typography;
@@ -27,7 +32,31 @@ const Popup = () => {
   const [error, setError] = useState<string | null>(null);
   const [selectedDomain, setSelectedDomain] = useState<string | null>(null);
   const [currentUrl, setCurrentUrl] = useState<string>('');
+  const [keyLocked, setKeyLocked] = useState<boolean>(false);
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [unlocking, setUnlocking] = useState<boolean>(false);
 
+  // 检查私钥是否已锁定
+  useEffect(() => {
+    ConfigManager.isPrivateKeyLocked()
+      .then(setKeyLocked)
+      .catch(e => console.error('获取私钥状态失败:', e));
+  }, []);
+
+  // 使用口令解锁私钥
+  const handleUnlock = async () => {
+    try {
+      setUnlocking(true);
+      await ConfigManager.unlockPrivateKey(passphrase);
+      setPassphrase('');
+      setKeyLocked(false);
+      Message.success('私钥已解锁');
+    } catch (e) {
+      Message.error(e instanceof Error ? e.message : '解锁失败');
+    } finally {
+      setUnlocking(false);
+    }
+  };
 
   useEffect(() => {
     // 获取当前活动标签页的ID和URL
@@ -91,6 +120,27 @@ const Popup = () => {
           />
         ) : (
           <Space direction="vertical" style={{ width: '100%' }}>
+            {keyLocked && (
+              <Alert
+                type="warning"
+                content={
+                  <Space>
+                    <Text>私钥已锁定，暂停同步</Text>
+                    <Input.Password
+                      size="small"
+                      placeholder="请输入口令"
+                      value={passphrase}
+                      onChange={setPassphrase}
+                      onPressEnter={handleUnlock}
+                      style={{ width: '160px' }}
+                    />
+                    <Button size="small" type="primary" loading={unlocking} onClick={handleUnlock}>
+                      解锁
+                    </Button>
+                  </Space>
+                }
+              />
+            )}
             <Space direction="vertical" style={{ width: '100%' }}>
               <Space align="center" style={{ width: '100%' }}>
                 <Text bold>选择域名:</Text>
@@ -0,0 +1,88 @@
+import ConfigManager, { DomainConfig } from './config';
+
+const createRule = (domain: string, overrides: Partial<DomainConfig> = {}): DomainConfig => ({
+  domain,
+  enableCookieSync: true,
+  enableHeaderSync: true,
+  includedHeaders: [],
+  excludedHeaders: [],
+  includedCookies: [],
+  excludedCookies: [],
+  ...overrides,
+});
+
+/**
+ * 使用内存对象模拟 chrome.storage.local
+ */
+const mockChromeStorage = (initial: Record<string, unknown> = {}) => {
+  const store: Record<string, unknown> = { ...initial };
+  (global as any).chrome = {
+    storage: {
+      local: {
+        get: (key: string, callback: (result: Record<string, unknown>) => void) => callback({ [key]: store[key] }),
+        set: (items: Record<string, unknown>, callback: () => void) => {
+          Object.assign(store, items);
+          callback();
+        },
+      },
+    },
+  };
+  return store;
+};
+
+afterEach(() => {
+  delete (global as any).chrome;
+});
+
+describe('isDomainSyncAllowedBy', () => {
+  it('通配规则禁止同步时，精确规则不能解除禁止', () => {
+    const rules = [
+      createRule('*.bank.com', { blocked: true, allowSync: true }),
+      createRule('www.bank.com', { allowSync: true, blocked: false }),
+    ];
+    expect(ConfigManager.isDomainSyncAllowedBy(rules, 'www.bank.com', 'denylist')).toBe(false);
+    expect(ConfigManager.isDomainSyncAllowedBy(rules, 'www.bank.com', 'allowlist')).toBe(false);
+    expect(ConfigManager.isDomainSyncAllowedBy(rules, 'bank.com', 'denylist')).toBe(true);
+  });
+
+  it('白名单模式下没有设置允许同步的精确规则继承通配规则', () => {
+    const rules = [
+      createRule('.example.com', { allowSync: true }),
+      createRule('www.example.com', { excludedCookies: ['_ga'] }),
+    ];
+    expect(ConfigManager.isDomainSyncAllowedBy(rules, 'www.example.com', 'allowlist')).toBe(true);
+    expect(ConfigManager.isDomainSyncAllowedBy(rules, 'other.com', 'allowlist')).toBe(false);
+  });
+
+  it('最具体规则显式关闭允许同步时不同步', () => {
+    const rules = [
+      createRule('.example.com', { allowSync: true }),
+      createRule('www.example.com', { allowSync: false }),
+    ];
+    expect(ConfigManager.isDomainSyncAllowedBy(rules, 'www.example.com', 'allowlist')).toBe(false);
+    expect(ConfigManager.isDomainSyncAllowedBy(rules, 'api.example.com', 'allowlist')).toBe(true);
+  });
+});
+
+describe('addOrUpdateDomainConfig', () => {
+  it('新建的精确规则继承通配规则的禁止同步和允许同步设置', async () => {
+    mockChromeStorage({
+      domainConfig: [createRule('*.bank.com', { blocked: true, allowSync: true })],
+    });
+
+    const created = await ConfigManager.addOrUpdateDomainConfig('www.bank.com', { excludedCookies: ['session'] });
+
+    expect(created.blocked).toBe(true);
+    expect(created.allowSync).toBe(true);
+    expect(ConfigManager.isDomainSyncAllowedBy(await ConfigManager.getAllDomainConfigs(), 'www.bank.com', 'denylist')).toBe(false);
+  });
+
+  it('没有匹配规则时不设置同步开关', async () => {
+    mockChromeStorage();
+
+    const created = await ConfigManager.addOrUpdateDomainConfig('www.example.com', { excludedCookies: ['_ga'] });
+
+    expect(created.blocked).toBeUndefined();
+    expect(created.allowSync).toBeUndefined();
+  });
+});
@@ -6,6 +6,92 @@
  */
 
 import { getKeyPairFromPrivateKey } from '../utils/crypto';
+import { getDomainMatchSpecificity, isWildcardPattern } from '../utils/domainMatcher';
+import { createFilterPolicy, FilterPolicy } from '../utils/filterPolicy';
+import { CookieStoreSelection } from '../utils/cookieStores';
+import { getContextStoragePrefix, isIncognitoContext } from '../utils/incognito';
+import { decryptPrivateKey, encryptPrivateKey, EncryptedKeystore } from '../utils/keystore';
+import scheduler, { JobNames } from './scheduler';
+
+// 会话存储中已解锁私钥的键名（chrome.storage.session 只保存在内存中）
+const UNLOCKED_KEY_SESSION_KEY = 'unlockedPrivateKey';
+
+// 会话中已解锁的私钥
+interface UnlockedPrivateKey {
+  privateKey: string;           // 私钥
+  expiresAt: number;            // 自动锁定时间（0 表示不自动锁定）
+}
+
+/**
+ * 私钥已锁定错误
+ * 私钥受口令保护且当前未解锁时抛出
+ */
+export class PrivateKeyLockedError extends Error {
+  constructor(message: string = '私钥已锁定，请先输入口令解锁') {
+    super(message);
+    this.name = 'PrivateKeyLockedError';
+    // 编译目标为ES5时需要手动修正原型链，保证instanceof可用
+    Object.setPrototypeOf(this, PrivateKeyLockedError.prototype);
+  }
+}
+
+// 同步策略：allowlist 只同步有明确规则的域名，denylist 同步除禁止域名外的所有域名
+export type SyncPolicy = 'allowlist' | 'denylist';
+
+// endpoint 认证方式：none 不认证，bearer 静态令牌，basic 用户名密码（WebDAV常用），hmac 带时间戳的请求体签名
+export type EndpointAuthType = 'none' | 'bearer' | 'basic' | 'hmac';
+
+// 自定义请求头
+export interface CustomHeader {
+  name: string;                 // 请求头名称
+  value: string;                // 请求头值
+}
+
+// endpoint 认证配置
+export interface EndpointAuth {
+  type: EndpointAuthType;       // 认证方式
+  token?: string;               // bearer 令牌
+  username?: string;            // basic 用户名
+  password?: string;            // basic 密码
+  hmacSecret?: string;          // HMAC 密钥
+  customHeaders?: CustomHeader[]; // 随请求发送的自定义请求头（与认证方式无关）
+}
+
+// 传输方式：http-json 本插件的 /set、/get 接口，cookiecloud 原版 CookieCloud 服务端的 /update、/get/:uuid 接口，
+// webdav 以单个文件 PUT 到 WebDAV，s3-presigned 通过预签名服务获取 S3 兼容存储的上传/下载地址
+export type TransportType = 'http-json' | 'cookiecloud' | 'webdav' | 's3-presigned';
+
+// 传输方式的额外设置
+export interface TransportSettings {
+  cookieCloudUuid?: string;     // 原版 CookieCloud 的用户 KEY（uuid）
+  cookieCloudPassword?: string; // 原版 CookieCloud 的端对端加密密码
+}
+
+// 原版 CookieCloud 兼容导出配置
+export interface CookieCloudExportConfig {
+  enabled: boolean;             // 是否启用导出
+  url: string;                  // 原版 CookieCloud 服务端地址
+  uuid: string;                 // 用户 KEY
+  password: string;             // 端对端加密密码
+  domains: string[];            // 导出的域名（支持 .example.com、*.example.com 写法）
+  auth?: EndpointAuth;          // 认证配置（服务端前有反向代理鉴权时使用）
+}
+
+// 默认 endpoint 的标识（由 BaseConfig.endpoint 和 endpointAuth 组成）
+export const DEFAULT_ENDPOINT_ID = 'default';
+
+// endpoint 配置
+export interface EndpointProfile {
+  id: string;                   // 唯一标识
+  name: string;                 // 名称
+  url: string;                  // 接口地址
+  auth?: EndpointAuth;          // 认证配置
+  transport?: TransportType;    // 传输方式（未设置时为 http-json）
+  transportSettings?: TransportSettings; // 传输方式的额外设置
+  enabled: boolean;             // 是否启用
+  peerKeys?: string[];          // 发送给哪些对端（公钥列表），为空表示所有对端
+  domains?: string[];           // 发送哪些域名（支持通配写法），为空表示所有域名
+}
 
 // 基础配置接口
 export interface BaseConfig {
@@ -13,12 +99,34 @@ export interface BaseConfig {
   lastSyncTime?: number;        // 最后同步时间
   enableAutoSync: boolean;      // 是否启用自动同步
   syncInterval: number;         // 同步间隔（分钟）
-  privateKey?: string;          // 私钥
+  privateKey?: string;          // 私钥（未设置口令时明文保存）
+  encryptedPrivateKey?: EncryptedKeystore; // 口令加密后的私钥
+  publicKey?: string;           // 公钥（私钥受口令保护时保存，锁定状态下仍可展示）
+  autoLockMinutes?: number;     // 解锁后自动锁定时间（分钟，0 表示不自动锁定）
   endpoint?: string;            // 上报数据的接口地址
+  endpointAuth?: EndpointAuth;  // endpoint 认证配置
+  endpointTransport?: TransportType; // endpoint 传输方式
+  endpointTransportSettings?: TransportSettings; // endpoint 传输方式的额外设置
+  endpointPeerKeys?: string[];  // 默认 endpoint 发送给哪些对端（公钥列表），为空表示所有对端
+  endpointDomains?: string[];   // 默认 endpoint 发送哪些域名（支持通配写法），为空表示所有域名
+  endpoints?: EndpointProfile[]; // 额外的 endpoint 配置（按对端和域名分流）
+  cookieCloudExport?: CookieCloudExportConfig; // 原版 CookieCloud 兼容导出配置
+  maxPayloadKB?: number;        // 单个请求的最大数据大小（KB）
+  maxItemsPerRequest?: number;  // 单个请求的最大数据项数量
+  requestTimeoutSeconds?: number; // 单个请求的超时时间（秒）
+  enableDeltaSync?: boolean;    // 是否只发送变化的Cookie和请求头
+  fullSnapshotMinutes?: number; // 增量模式下发送全量快照的间隔（分钟）
+  lastFullSnapshotTime?: number; // 最后一次发送全量快照的时间
   enableCookieSync: boolean;    // 是否启用Cookie同步
   enableHeaderSync: boolean;    // 是否启用请求头同步
   includedHeaders?: string[];   // 需要同步的请求头列表
   excludedHeaders?: string[];   // 排除同步的请求头列表
+  captureExtraHeaders?: boolean; // 是否以 extraHeaders 方式采集浏览器默认隐藏的请求头（Cookie、Referer、Origin 等）
+  includedCookies?: string[];   // 需要同步的Cookie名称列表（支持通配符，如 _ga*）
+  excludedCookies?: string[];   // 排除同步的Cookie名称列表（支持通配符）
+  enableReceive?: boolean;      // 是否启用接收模式（从对端拉取数据并写入浏览器）
+  syncPolicy?: SyncPolicy;      // 同步策略（未设置时按 denylist 处理，兼容旧配置）
+  enableIncognitoSync?: boolean; // 是否同步隐身窗口的数据（还需在扩展管理页允许在无痕模式下运行）
 }
 
 // 默认配置
@@ -31,6 +139,15 @@ const DEFAULT_CONFIG: BaseConfig = {
   enableHeaderSync: true,
   includedHeaders: [],
   excludedHeaders: ['user-agent', 'referer'],
+  includedCookies: [],
+  excludedCookies: [],
+  enableReceive: false,
+  syncPolicy: 'allowlist',
+  autoLockMinutes: 30,
+  maxPayloadKB: 512,
+  maxItemsPerRequest: 100,
+  requestTimeoutSeconds: 30,
+  fullSnapshotMinutes: 60,
 };
 
 // 存储键名定义
@@ -40,9 +157,32 @@ export enum StorageKeys {
   PEER_KEYS = 'peerKeys',           // 对端公钥列表
   COOKIE_RECORDS = 'cookieRecords', // Cookie记录
   PERMISSIONS = 'permissions',      // 权限配置
-  DOMAIN_CONFIG = 'domainConfig'    // 域名配置
+  DOMAIN_CONFIG = 'domainConfig',   // 域名配置
+  RECEIVE_RECORDS = 'receiveRecords', // 接收记录
+  SYNC_QUEUE = 'syncQueue',         // 待重试的同步数据
+  SEND_SEQUENCE = 'sendSequence',   // 最近一次发送使用的序列号
+  SENT_SEQUENCES = 'sentSequences', // 每个endpoint每个数据标识最近一次发送使用的序列号
+  SYNCED_HASHES = 'syncedHashes'    // 最近一次发送成功的数据内容哈希
 }
 
+// 隐身实例单独保存的配置（域名规则、对端列表和发送接收记录），其余配置与普通实例共用
+const CONTEXT_SCOPED_KEYS: StorageKeys[] = [
+  StorageKeys.PEER_KEYS,
+  StorageKeys.DOMAIN_CONFIG,
+  StorageKeys.RECEIVE_RECORDS,
+  StorageKeys.SYNC_QUEUE,
+  StorageKeys.SYNCED_HASHES,
+  StorageKeys.SEND_SEQUENCE,
+  StorageKeys.SENT_SEQUENCES,
+];
+
+// 隐身窗口全部关闭时清除的隐身实例数据（域名规则、对端列表和接收记录保留）
+const INCOGNITO_SESSION_KEYS: StorageKeys[] = [
+  StorageKeys.SYNC_QUEUE,
+  StorageKeys.SYNCED_HASHES,
+  StorageKeys.SENT_SEQUENCES,
+];
+
 // 对端公钥信息接口
 export interface PeerKeyInfo {
   publicKey: string;         // 公钥
@@ -51,13 +191,23 @@ export interface PeerKeyInfo {
   notes?: string;            // 备注
   globalEnabled: boolean;    // 是否全局启用
   disabled: boolean;        // 是否禁用
+  serviceName?: string;      // 对端浏览器名称（接收数据时用于计算数据标识）
+  enableReceive?: boolean;   // 是否接收该对端共享的数据
+  rejectLegacyEnvelopes?: boolean; // 是否拒绝该对端旧版本（v1）的加密数据（签名不绑定发送者和数据标识）
 }
 
 
 
+// 请求头快照规则（匹配的请求的请求头单独保存为一个快照）
+export interface HeaderSnapshotRule {
+  name: string;                 // 快照名称
+  pathPattern?: string;         // URL路径通配规则（如 /api/v1/*），为空表示所有路径
+  methods?: string[];           // 请求方法列表（如 GET、POST），为空表示所有方法
+}
+
 // 域名配置接口
 export interface DomainConfig {
-  domain: string;               // 域名
+  domain: string;               // 域名规则（example.com / .example.com / *.example.com）
   updateTime?: number;          // 最后获取时间
   notes?: string;               // 备注
   additionalPeers?: string[];   // 额外的对端公钥列表（针对此域名特别启用）
@@ -66,14 +216,68 @@ export interface DomainConfig {
   enableHeaderSync?: boolean;   // 是否启用请求头同步（undefined表示继承基础配置）
   includedHeaders?: string[];   // 需要同步的请求头列表
   excludedHeaders?: string[];   // 排除同步的请求头列表
+  headerSnapshots?: HeaderSnapshotRule[]; // 请求头快照规则，设置后按快照同步请求头，不再同步合并的请求头
+  includedCookies?: string[];   // 需要同步的Cookie名称列表（支持通配符）
+  excludedCookies?: string[];   // 排除同步的Cookie名称列表（支持通配符）
+  enableReceive?: boolean;      // 是否从对端接收此域名的数据
+  matchRegistrableDomain?: boolean; // 是否应用到同一注册域（eTLD+1）下的所有域名
+  allowSync?: boolean;          // 白名单模式下是否允许同步此域名（需显式开启，只用于排除Cookie或禁用对端的规则不会触发同步）
+  blocked?: boolean;            // 是否禁止同步此域名
+  cookieStoreIds?: string[];    // 采集Cookie的存储标识列表（为空表示默认存储）
+  includePartitionedCookies?: boolean; // 是否采集分区Cookie（CHIPS）
+}
+
+// 接收记录接口（记录每个数据标识最后应用的数据时间戳）
+export interface ReceiveRecord {
+  timestamp: number;            // 已应用数据的时间戳
+  appliedTime: number;          // 应用时间
+  sequence?: number;            // 已应用数据签名中的序列号（收到过带签名上下文的数据后才有）
+}
+
+// 发送成功的数据内容哈希记录
+export interface SyncedContentHash {
+  hash: string;                 // 内容哈希
+  syncedTime: number;           // 发送时间戳
 }
 
 // 域名状态配置接口（只包含与同步相关的配置）
 export interface DomainSyncConfig {
   enableCookieSync: boolean;    // 是否启用Cookie同步
   enableHeaderSync: boolean;    // 是否启用请求头同步
-  includedHeaders: string[];    // 需要同步的请求头列表
+  headerPolicy: FilterPolicy;   // 请求头过滤策略
+  cookiePolicy: FilterPolicy;   // Cookie名称过滤策略
+  cookieStores: CookieStoreSelection; // Cookie存储和分区选择
+  headerSnapshotRules: HeaderSnapshotRule[]; // 请求头快照规则
+}
+/**
+ * 根据基础配置获取所有启用的 endpoint 配置
+ * 默认 endpoint 与额外的 endpoint 一样按各自的对端和域名规则分流；未填写地址时不使用默认 endpoint
+ * @param config 基础配置
+ * @returns EndpointProfile[] endpoint 配置列表
+ */
+export function resolveEndpointProfiles(config: BaseConfig): EndpointProfile[] {
+  const profiles: EndpointProfile[] = [];
+  if (config.endpoint) {
+    profiles.push({
+      id: DEFAULT_ENDPOINT_ID,
+      name: '默认',
+      url: config.endpoint,
+      auth: config.endpointAuth,
+      transport: config.endpointTransport,
+      transportSettings: config.endpointTransportSettings,
+      enabled: true,
+      peerKeys: config.endpointPeerKeys,
+      domains: config.endpointDomains,
+    });
+  }
+  for (const profile of config.endpoints || []) {
+    if (profile.enabled && profile.url) {
+      profiles.push(profile);
+    }
+  }
+  return profiles;
 }
+
 /**
  * 配置管理类
  */
@@ -118,11 +322,137 @@ export class ConfigManager {
 
   /**
    * 获取私钥
+   * 私钥受口令保护且未解锁时抛出 PrivateKeyLockedError
    * @returns Promise<string | null> 私钥，如果不存在则返回null
    */
   static async getPrivateKey(): Promise<string | null> {
     const config = await this.getBaseConfig();
-    return config.privateKey || null;
+    if (!config.encryptedPrivateKey) {
+      return config.privateKey || null;
+    }
+
+    const unlocked = await this.getUnlockedPrivateKey();
+    if (!unlocked) {
+      throw new PrivateKeyLockedError();
+    }
+    return unlocked;
+  }
+
+  /**
+   * 获取会话中已解锁且未过期的私钥
+   * @returns Promise<string | null> 私钥，未解锁或已过期时返回null
+   */
+  private static async getUnlockedPrivateKey(): Promise<string | null> {
+    const result = await chrome.storage.session.get(UNLOCKED_KEY_SESSION_KEY);
+    const unlocked = result[UNLOCKED_KEY_SESSION_KEY] as UnlockedPrivateKey | undefined;
+    if (!unlocked) {
+      return null;
+    }
+    if (unlocked.expiresAt && unlocked.expiresAt <= Date.now()) {
+      await this.lockPrivateKey();
+      return null;
+    }
+    return unlocked.privateKey;
+  }
+
+  /**
+   * 私钥是否受口令保护
+   * @returns Promise<boolean>
+   */
+  static async isPrivateKeyProtected(): Promise<boolean> {
+    const config = await this.getBaseConfig();
+    return !!config.encryptedPrivateKey;
+  }
+
+  /**
+   * 私钥是否处于锁定状态
+   * @returns Promise<boolean> 受口令保护且未解锁时返回true
+   */
+  static async isPrivateKeyLocked(): Promise<boolean> {
+    const config = await this.getBaseConfig();
+    if (!config.encryptedPrivateKey) {
+      return false;
+    }
+    return !(await this.getUnlockedPrivateKey());
+  }
+
+  /**
+   * 使用口令解锁私钥，解锁状态只保存在会话内存中
+   * @param passphrase 口令
+   * @returns Promise<void> 口令错误时抛出错误
+   */
+  static async unlockPrivateKey(passphrase: string): Promise<void> {
+    const config = await this.getBaseConfig();
+    if (!config.encryptedPrivateKey) {
+      throw new Error('私钥未设置口令保护');
+    }
+    const privateKey = await decryptPrivateKey(config.encryptedPrivateKey, passphrase);
+    await this.saveUnlockedPrivateKey(privateKey, config.autoLockMinutes ?? DEFAULT_CONFIG.autoLockMinutes!);
+  }
+
+  /**
+   * 将解锁的私钥保存到会话中，并安排自动锁定
+   * @param privateKey 私钥
+   * @param autoLockMinutes 自动锁定时间（分钟，0 表示不自动锁定）
+   */
+  private static async saveUnlockedPrivateKey(privateKey: string, autoLockMinutes: number): Promise<void> {
+    const expiresAt = autoLockMinutes > 0 ? Date.now() + autoLockMinutes * 60 * 1000 : 0;
+    const unlocked: UnlockedPrivateKey = { privateKey, expiresAt };
+    await chrome.storage.session.set({ [UNLOCKED_KEY_SESSION_KEY]: unlocked });
+
+    if (expiresAt) {
+      await scheduler.scheduleOnce(JobNames.AUTO_LOCK, expiresAt - Date.now());
+    } else {
+      await scheduler.cancel(JobNames.AUTO_LOCK);
+    }
+  }
+
+  /**
+   * 锁定私钥，清除会话中的解锁状态
+   * @returns Promise<void>
+   */
+  static async lockPrivateKey(): Promise<void> {
+    await chrome.storage.session.remove(UNLOCKED_KEY_SESSION_KEY);
+    await scheduler.cancel(JobNames.AUTO_LOCK);
+  }
+
+  /**
+   * 为私钥设置口令保护，设置后本地不再保存明文私钥
+   * @param passphrase 口令
+   * @returns Promise<void>
+   */
+  static async setPrivateKeyPassphrase(passphrase: string): Promise<void> {
+    const privateKey = await this.getPrivateKey();
+    if (!privateKey) {
+      throw new Error('未找到私钥');
+    }
+    const encryptedPrivateKey = await encryptPrivateKey(privateKey, passphrase);
+    const config = await this.getBaseConfig();
+    const { privateKey: _plainPrivateKey, ...rest } = config;
+    await this.saveBaseConfig({
+      ...rest,
+      encryptedPrivateKey,
+      publicKey: getKeyPairFromPrivateKey(privateKey).publicKey,
+    });
+    await this.saveUnlockedPrivateKey(privateKey, config.autoLockMinutes ?? DEFAULT_CONFIG.autoLockMinutes!);
+  }
+
+  /**
+   * 移除私钥的口令保护，恢复明文保存（需要先解锁）
+   * @returns Promise<void>
+   */
+  static async removePrivateKeyPassphrase(): Promise<void> {
+    const privateKey = await this.getPrivateKey();
+    if (!privateKey) {
+      throw new Error('未找到私钥');
+    }
+    const config = await this.getBaseConfig();
+    const { encryptedPrivateKey: _encryptedPrivateKey, publicKey: _publicKey, ...rest } = config;
+    await this.saveBaseConfig({
+      ...rest,
+      privateKey,
+    });
+    await this.lockPrivateKey();
   }
 
   /**
@@ -130,6 +460,12 @@ export class ConfigManager {
    * @returns Promise<string | null> 公钥，如果私钥不存在则返回null
    */
   static async getPublicKey(): Promise<string | null> {
+    // 私钥受口令保护时直接使用保存的公钥，锁定状态下也能获取
+    const config = await this.getBaseConfig();
+    if (config.encryptedPrivateKey && config.publicKey) {
+      return config.publicKey;
+    }
+
     const privateKey = await this.getPrivateKey();
     if (!privateKey) {
       return null;
@@ -144,6 +480,36 @@ export class ConfigManager {
     }
   }
 
+  /**
+   * 获取单个请求的数据大小和数量限制
+   * @returns Promise<{maxBytes: number, maxItems: number}> 最大字节数和最大数据项数量
+   */
+  static async getUploadLimits(): Promise<{maxBytes: number, maxItems: number}> {
+    const config = await this.getBaseConfig();
+    const maxPayloadKB = config.maxPayloadKB || DEFAULT_CONFIG.maxPayloadKB!;
+    const maxItems = config.maxItemsPerRequest || DEFAULT_CONFIG.maxItemsPerRequest!;
+    return { maxBytes: maxPayloadKB * 1024, maxItems };
+  }
+
+  /**
+   * 获取单个请求的超时时间
+   * @returns Promise<number> 超时时间（毫秒）
+   */
+  static async getRequestTimeout(): Promise<number> {
+    const config = await this.getBaseConfig();
+    return (config.requestTimeoutSeconds || DEFAULT_CONFIG.requestTimeoutSeconds!) * 1000;
+  }
+
+  /**
+   * 判断增量模式下是否到了发送全量快照的时间
+   * @returns Promise<boolean> 是否发送全量快照
+   */
+  static async isFullSnapshotDue(): Promise<boolean> {
+    const config = await this.getBaseConfig();
+    const intervalMs = (config.fullSnapshotMinutes || DEFAULT_CONFIG.fullSnapshotMinutes!) * 60 * 1000;
+    return Date.now() - (config.lastFullSnapshotTime || 0) >= intervalMs;
+  }
+
   /**
    * 计算下次同步时间
    * @returns Promise<number> 下次同步的时间戳（毫秒）
@@ -161,15 +527,89 @@ export class ConfigManager {
     return nextSyncTime > now ? nextSyncTime : now;
   }
 
+  /**
+   * 获取所有启用的 endpoint 配置
+   * @returns Promise<EndpointProfile[]> endpoint 配置列表
+   */
+  static async getEndpointProfiles(): Promise<EndpointProfile[]> {
+    return resolveEndpointProfiles(await this.getBaseConfig());
+  }
+
+  /**
+   * 获取指定的 endpoint 配置（只返回启用的配置）
+   * @param id endpoint 标识
+   * @returns Promise<EndpointProfile | null> endpoint 配置，如果不存在则返回null
+   */
+  static async getEndpointProfile(id: string): Promise<EndpointProfile | null> {
+    const profiles = await this.getEndpointProfiles();
+    return profiles.find(profile => profile.id === id) || null;
+  }
+
+  /**
+   * 添加或更新额外的 endpoint 配置
+   * @param profile endpoint 配置
+   * @returns Promise<EndpointProfile[]> 更新后的额外 endpoint 列表
+   */
+  static async addOrUpdateEndpointProfile(profile: EndpointProfile): Promise<EndpointProfile[]> {
+    if (profile.id === DEFAULT_ENDPOINT_ID) {
+      throw new Error('默认 endpoint 请在服务配置中修改');
+    }
+    const config = await this.getBaseConfig();
+    const endpoints = [...(config.endpoints || [])];
+    const index = endpoints.findIndex(item => item.id === profile.id);
+    if (index >= 0) {
+      endpoints[index] = profile;
+    } else {
+      endpoints.push(profile);
+    }
+    await this.updateBaseConfig({ endpoints });
+    return endpoints;
+  }
+
+  /**
+   * 删除额外的 endpoint 配置
+   * @param id endpoint 标识
+   * @returns Promise<boolean> 是否删除成功
+   */
+  static async deleteEndpointProfile(id: string): Promise<boolean> {
+    const config = await this.getBaseConfig();
+    const endpoints = config.endpoints || [];
+    const filtered = endpoints.filter(item => item.id !== id);
+    if (filtered.length === endpoints.length) {
+      return false;
+    }
+    await this.updateBaseConfig({ endpoints: filtered });
+
+    // 清除已删除endpoint的内容哈希记录
+    const hashes = await this.getConfig<Record<string, Record<string, SyncedContentHash>>>(StorageKeys.SYNCED_HASHES);
+    if (hashes) {
+      Object.keys(hashes)
+        .filter(key => key.startsWith(`${id}|`))
+        .forEach(key => delete hashes[key]);
+      await this.saveConfig(StorageKeys.SYNCED_HASHES, hashes);
+    }
+
+    // 清除已删除endpoint的发送序列号记录
+    const sequences = await this.getConfig<Record<string, number>>(StorageKeys.SENT_SEQUENCES);
+    if (sequences) {
+      Object.keys(sequences)
+        .filter(key => key.startsWith(`${id}:`))
+        .forEach(key => delete sequences[key]);
+      await this.saveConfig(StorageKeys.SENT_SEQUENCES, sequences);
+    }
+    return true;
+  }
+
   /**
    * 获取指定键的配置
    * @param key 存储键名
    * @returns Promise<T | null>
    */
   static async getConfig<T>(key: StorageKeys): Promise<T | null> {
+    const storageKey = this.getStorageKey(key);
     return new Promise((resolve) => {
-      chrome.storage.local.get(key, (result) => {
-        resolve(result[key] as T || null);
+      chrome.storage.local.get(storageKey, (result) => {
+        resolve(result[storageKey] as T || null);
       });
     });
   }
@@ -182,12 +622,47 @@ export class ConfigManager {
    */
   static async saveConfig<T>(key: StorageKeys, value: T): Promise<void> {
     return new Promise((resolve) => {
-      chrome.storage.local.set({ [key]: value }, () => {
+      chrome.storage.local.set({ [this.getStorageKey(key)]: value }, () => {
         resolve();
       });
     });
   }
 
+  /**
+   * 获取配置在当前实例中实际使用的存储键名
+   * 隐身实例的域名规则、对端列表和发送接收记录使用带前缀的键名，不与普通实例混用
+   * @param key 存储键名
+   * @returns 实际存储键名
+   */
+  private static getStorageKey(key: StorageKeys): string {
+    return CONTEXT_SCOPED_KEYS.includes(key) ? getContextStoragePrefix() + key : key;
+  }
+
+  /**
+   * 判断当前实例是否允许采集和同步数据
+   * 普通实例始终允许，隐身实例需要在基础配置中启用隐身窗口同步
+   * @returns Promise<boolean> 是否允许
+   */
+  static async isContextSyncEnabled(): Promise<boolean> {
+    if (!isIncognitoContext()) {
+      return true;
+    }
+    const config = await this.getBaseConfig();
+    return !!config.enableIncognitoSync;
+  }
+
+  /**
+   * 清除隐身会话产生的数据（待重试的数据和内容哈希）
+   * 只在隐身实例中生效
+   * @returns Promise<void>
+   */
+  static async clearIncognitoSessionData(): Promise<void> {
+    if (!isIncognitoContext()) {
+      return;
+    }
+    await chrome.storage.local.remove(INCOGNITO_SESSION_KEYS.map(key => this.getStorageKey(key)));
+  }
+
 
   /**
    * 清除所有配置
@@ -208,8 +683,9 @@ export class ConfigManager {
    */
   static watchConfig(key: StorageKeys, callback: (newValue: any, oldValue: any) => void): void {
     chrome.storage.onChanged.addListener((changes, areaName) => {
-      if (areaName === 'local' && changes[key]) {
-        callback(changes[key].newValue, changes[key].oldValue);
+      const storageKey = this.getStorageKey(key);
+      if (areaName === 'local' && changes[storageKey]) {
+        callback(changes[storageKey].newValue, changes[storageKey].oldValue);
       }
     });
   }
@@ -313,6 +789,132 @@ export class ConfigManager {
     return peerKeys.filter(key => key.globalEnabled && !key.disabled);
   }
 
+  /**
+   * 获取所有启用接收的对端公钥
+   * @returns Promise<PeerKeyInfo[]> 启用接收且未被禁用的对端公钥列表
+   */
+  static async getReceivePeerKeys(): Promise<PeerKeyInfo[]> {
+    const peerKeys = await this.getAllPeerKeys();
+    return peerKeys.filter(key => key.enableReceive && !key.disabled);
+  }
+
+  /**
+   * 获取所有启用接收的域名
+   * @returns Promise<string[]> 启用接收的域名列表
+   */
+  static async getReceiveDomains(): Promise<string[]> {
+    const domainConfigs = await this.getAllDomainConfigs();
+    // 通配规则无法计算数据标识，只使用具体域名
+    return domainConfigs
+      .filter(config => config.enableReceive && !isWildcardPattern(config.domain))
+      .map(config => config.domain);
+  }
+
+  /**
+   * 获取所有接收记录
+   * @returns Promise<Record<string, ReceiveRecord>> 数据标识 -> 接收记录
+   */
+  static async getReceiveRecords(): Promise<Record<string, ReceiveRecord>> {
+    const records = await this.getConfig<Record<string, ReceiveRecord>>(StorageKeys.RECEIVE_RECORDS);
+    return records || {};
+  }
+
+  /**
+   * 保存接收记录
+   * @param records 数据标识 -> 接收记录
+   * @returns Promise<void>
+   */
+  static async saveReceiveRecords(records: Record<string, ReceiveRecord>): Promise<void> {
+    await this.saveConfig(StorageKeys.RECEIVE_RECORDS, records);
+  }
+
+  /**
+   * 分配发送序列号
+   * 序列号严格递增，且不小于当前时间戳，重装插件后计数重置也不会被接收方当成重放
+   * @returns Promise<number> 本次发送使用的序列号
+   */
+  static async nextSendSequence(): Promise<number> {
+    const last = (await this.getConfig<number>(StorageKeys.SEND_SEQUENCE)) || 0;
+    const sequence = Math.max(last + 1, Date.now());
+    await this.saveConfig(StorageKeys.SEND_SEQUENCE, sequence);
+    return sequence;
+  }
+
+  /**
+   * 为发往endpoint的数据标识分配发送序列号
+   * 同时返回同一endpoint同一数据标识上一次发送使用的序列号，写入签名后接收方据此发现缺失的增量数据
+   * @param endpointId endpoint标识
+   * @param identifier 数据标识
+   * @returns Promise<{sequence: number, previousSequence?: number}> 本次和上一次发送使用的序列号
+   */
+  static async nextSendSequenceFor(
+    endpointId: string,
+    identifier: string
+  ): Promise<{ sequence: number, previousSequence?: number }> {
+    const sequence = await this.nextSendSequence();
+    const key = `${endpointId}:${identifier}`;
+    const sequences = (await this.getConfig<Record<string, number>>(StorageKeys.SENT_SEQUENCES)) || {};
+    const previousSequence = sequences[key];
+    sequences[key] = sequence;
+    await this.saveConfig(StorageKeys.SENT_SEQUENCES, sequences);
+    return { sequence, previousSequence };
+  }
+
+  /**
+   * 计算内容哈希的记录范围
+   * endpoint 的地址或传输方式变化后目标存储不同，需要重新发送全部数据
+   * @param profile endpoint配置
+   * @returns 记录范围
+   */
+  private static getContentHashScope(profile: EndpointProfile): string {
+    return `${profile.id}|${profile.transport || 'http-json'}|${profile.url}`;
+  }
+
+  /**
+   * 获取最近一次发送成功的数据内容哈希
+   * @param profile endpoint配置
+   * @returns Promise<Record<string, SyncedContentHash>> 数据标识 -> 内容哈希记录（旧版本只保存了哈希字符串）
+   */
+  static async getSyncedContentHashes(profile: EndpointProfile): Promise<Record<string, SyncedContentHash | string>> {
+    const hashes = await this.getConfig<Record<string, Record<string, SyncedContentHash>>>(StorageKeys.SYNCED_HASHES);
+    return hashes?.[this.getContentHashScope(profile)] || {};
+  }
+
+  /**
+   * 记录发送成功的数据内容哈希
+   * 同时清除该endpoint旧地址下的记录
+   * @param profile endpoint配置
+   * @param updates 数据标识 -> 内容哈希，为 null 时删除该数据标识的记录
+   * @param syncedTime 发送时间戳
+   * @returns Promise<void>
+   */
+  static async saveSyncedContentHashes(
+    profile: EndpointProfile,
+    updates: Record<string, string | null>,
+    syncedTime: number
+  ): Promise<void> {
+    if (Object.keys(updates).length === 0) {
+      return;
+    }
+    const scope = this.getContentHashScope(profile);
+    const hashes = (await this.getConfig<Record<string, Record<string, SyncedContentHash>>>(StorageKeys.SYNCED_HASHES)) || {};
+    for (const key of Object.keys(hashes)) {
+      if (key !== scope && key.startsWith(`${profile.id}|`)) {
+        delete hashes[key];
+      }
+    }
+    const scoped = { ...hashes[scope] };
+    for (const [dataIdentifier, contentHash] of Object.entries(updates)) {
+      if (contentHash) {
+        scoped[dataIdentifier] = { hash: contentHash, syncedTime };
+      } else {
+        delete scoped[dataIdentifier];
+      }
+    }
+    hashes[scope] = scoped;
+    await this.saveConfig(StorageKeys.SYNCED_HASHES, hashes);
+  }
+
   /**
    * 获取所有域名配置
    * @returns Promise<DomainConfig[]> 域名配置列表
@@ -323,11 +925,93 @@ export class ConfigManager {
   }
 
   /**
-   * 获取指定域名的配置
+   * 获取对指定域名生效的配置
+   * 多条规则匹配时最具体的规则生效：精确匹配 > 标签更多的通配/后缀规则 > 注册域分组
    * @param domain 域名
    * @returns Promise<DomainConfig | null> 域名配置，如果不存在则返回null
    */
   static async getDomainConfig(domain: string): Promise<DomainConfig | null> {
+    return this.findDomainConfig(await this.getAllDomainConfigs(), domain);
+  }
+
+  /**
+   * 在域名配置列表中查找匹配域名的最具体规则
+   * 供需要同步调用的场景（例如请求头监听）使用已缓存的配置列表
+   * @param domainConfigs 域名配置列表
+   * @param domain 域名
+   * @returns DomainConfig | null 匹配的域名配置，如果不存在则返回null
+   */
+  static findDomainConfig(domainConfigs: DomainConfig[], domain: string): DomainConfig | null {
+    let bestConfig: DomainConfig | null = null;
+    let bestSpecificity = -1;
+
+    for (const config of domainConfigs) {
+      const specificity = getDomainMatchSpecificity(config.domain, domain, config.matchRegistrableDomain);
+      if (specificity > bestSpecificity) {
+        bestConfig = config;
+        bestSpecificity = specificity;
+      }
+    }
+
+    return bestConfig;
+  }
+
+  /**
+   * 按匹配规则解析域名继承的同步设置
+   * 任一匹配规则禁止同步即视为禁止；是否允许同步取显式设置了该项的最具体规则
+   * @param domainConfigs 域名配置列表
+   * @param domain 域名
+   * @returns 继承的 allowSync 和 blocked 设置，没有规则设置时对应字段为 undefined
+   */
+  static resolveDomainSyncRule(
+    domainConfigs: DomainConfig[],
+    domain: string
+  ): Pick<DomainConfig, 'allowSync' | 'blocked'> {
+    let blocked: boolean | undefined;
+    let allowSync: boolean | undefined;
+    let allowSyncSpecificity = -1;
+
+    for (const config of domainConfigs) {
+      const specificity = getDomainMatchSpecificity(config.domain, domain, config.matchRegistrableDomain);
+      if (specificity < 0) {
+        continue;
+      }
+      if (config.blocked) {
+        blocked = true;
+      }
+      if (config.allowSync !== undefined && specificity > allowSyncSpecificity) {
+        allowSync = config.allowSync;
+        allowSyncSpecificity = specificity;
+      }
+    }
+
+    return { allowSync, blocked };
+  }
+
+  /**
+   * 根据域名配置列表和同步策略判断域名是否允许同步
+   * @param domainConfigs 域名配置列表
+   * @param domain 域名
+   * @param syncPolicy 同步策略
+   * @returns boolean 是否允许同步
+   */
+  static isDomainSyncAllowedBy(domainConfigs: DomainConfig[], domain: string, syncPolicy: SyncPolicy = 'denylist'): boolean {
+    const { allowSync, blocked } = this.resolveDomainSyncRule(domainConfigs, domain);
+    if (blocked) {
+      return false;
+    }
+    if (syncPolicy === 'allowlist') {
+      return allowSync === true;
+    }
+    return true;
+  }
+
+  /**
+   * 获取与规则完全一致的域名配置（用于编辑规则本身）
+   * @param domain 域名规则
+   * @returns Promise<DomainConfig | null> 域名配置，如果不存在则返回null
+   */
+  static async getExactDomainConfig(domain: string): Promise<DomainConfig | null> {
     const domainConfigs = await this.getAllDomainConfigs();
     return domainConfigs.find(config => config.domain === domain) || null;
   }
@@ -354,22 +1038,42 @@ export class ConfigManager {
         ? domainConfig.enableHeaderSync 
         : baseConfig.enableHeaderSync,
       
-      // 计算includedHeaders: (baseConfig.includedHeaders - domainConfig.excludedHeaders - baseConfig.excludedHeaders) + domainConfig.includedHeaders
-      includedHeaders: [
-        // 从baseConfig.includedHeaders中过滤掉在domainConfig.excludedHeaders和baseConfig.excludedHeaders中的项
-        ...(baseConfig.includedHeaders || []).filter(header => 
-          !(domainConfig?.excludedHeaders || []).includes(header) && 
-          !(baseConfig.excludedHeaders || []).includes(header)
-        ),
-        // 添加domainConfig.includedHeaders
-        ...(domainConfig?.includedHeaders || [])
-      ].filter((value, index, self) => self.indexOf(value) === index), // 去重
+      // 请求头名称忽略大小写
+      headerPolicy: createFilterPolicy(
+        { included: baseConfig.includedHeaders, excluded: baseConfig.excludedHeaders },
+        { included: domainConfig?.includedHeaders, excluded: domainConfig?.excludedHeaders },
+        true
+      ),
+      // Cookie名称区分大小写
+      cookiePolicy: createFilterPolicy(
+        { included: baseConfig.includedCookies, excluded: baseConfig.excludedCookies },
+        { included: domainConfig?.includedCookies, excluded: domainConfig?.excludedCookies },
+        false
+      ),
+      cookieStores: {
+        storeIds: domainConfig?.cookieStoreIds || [],
+        includePartitioned: !!domainConfig?.includePartitionedCookies,
+      },
+      headerSnapshotRules: domainConfig?.headerSnapshots || [],
     };
     
     return syncConfig;
   }
   
 
+  /**
+   * 判断域名是否允许同步
+   * 任一匹配规则禁止同步时都不允许同步，更具体的规则不会解除通配规则的禁止
+   * allowlist 模式下只有匹配规则显式允许同步的域名才允许同步
+   * denylist 模式下除被禁止的域名外都允许同步
+   * @param domain 域名
+   * @returns Promise<boolean> 是否允许同步
+   */
+  static async isDomainSyncAllowed(domain: string): Promise<boolean> {
+    const baseConfig = await this.getBaseConfig();
+    return this.isDomainSyncAllowedBy(await this.getAllDomainConfigs(), domain, baseConfig.syncPolicy);
+  }
+
   /**
    * 获取指定域名可用的对端公钥列表
    * @param domain 域名
@@ -440,6 +1144,8 @@ export class ConfigManager {
       enableHeaderSync: true,
       includedHeaders: [],
       excludedHeaders: [],
+      includedCookies: [],
+      excludedCookies: [],
     };
 
     if (configIndex >= 0) {
@@ -453,10 +1159,13 @@ export class ConfigManager {
       await this.saveConfig(StorageKeys.DOMAIN_CONFIG, domainConfigs);
       return updatedConfig;
     } else {
-      // 创建新配置
+      // 创建新配置，继承匹配规则的同步设置，避免新建的精确规则解除禁止或关闭白名单同步
+      const inherited = this.resolveDomainSyncRule(domainConfigs, domain);
       const newConfig: DomainConfig = {
         domain,
         ...defaultDomainConfig,
+        ...(inherited.allowSync !== undefined ? { allowSync: inherited.allowSync } : {}),
+        ...(inherited.blocked ? { blocked: true } : {}),
         ...configData
       };
 
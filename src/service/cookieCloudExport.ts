@@ -0,0 +1,172 @@
+/**
+ * 原版 CookieCloud 兼容导出
+ * 将选定域名的Cookie按原版格式 {cookie_data, local_storage_data, update_time} 打包，
+ * 使用 uuid 和密码派生的口令加密后上传到原版服务端，原版客户端无需对端密钥即可使用
+ */
+
+import ConfigManager, { CookieCloudExportConfig, EndpointProfile } from './config';
+import ReportManager from './reportHistory';
+import { normalizeDomain } from '../utils/domainMatcher';
+import { isIncludedByPolicy } from '../utils/filterPolicy';
+import { CookieCloudTransport } from '../utils/transports';
+import { getDomainCookies } from '../utils/cookieStores';
+import { createTimeoutFetch } from '../utils/fetchTimeout';
+
+// 导出记录在上报历史中使用的endpoint标识
+export const COOKIECLOUD_EXPORT_ENDPOINT_ID = 'cookiecloud-export';
+
+// 原版 CookieCloud 的数据格式
+export interface CookieCloudPayload {
+  cookie_data: Record<string, chrome.cookies.Cookie[]>;   // 域名 -> Cookie列表
+  local_storage_data: Record<string, Record<string, string>>; // 域名 -> localStorage（暂不采集）
+  update_time: string;                                     // 更新时间（ISO格式）
+}
+
+/**
+ * 获取启用且配置完整的导出配置
+ * @returns Promise<CookieCloudExportConfig | null> 导出配置，未启用时返回null
+ */
+async function getExportConfig(): Promise<CookieCloudExportConfig | null> {
+  const config = await ConfigManager.getBaseConfig();
+  const exportConfig = config.cookieCloudExport;
+  if (!exportConfig?.enabled || !exportConfig.url || !exportConfig.uuid || !exportConfig.password) {
+    return null;
+  }
+  return exportConfig;
+}
+
+/**
+ * 判断域名是否在导出规则范围内
+ * 与 chrome.cookies.getAll 一致，精确写法同样包含子域名；*.example.com 只包含子域名
+ * @param pattern 导出的域名规则
+ * @param domain 域名或Cookie域
+ * @returns 是否在范围内
+ */
+function isCoveredByPattern(pattern: string, domain: string): boolean {
+  const trimmed = pattern.trim().toLowerCase();
+  const target = normalizeDomain(domain);
+  if (trimmed.startsWith('*.')) {
+    return target.endsWith('.' + trimmed.slice(2));
+  }
+  const base = normalizeDomain(trimmed);
+  return !!base && (target === base || target.endsWith('.' + base));
+}
+
+/**
+ * 判断域名变化是否涉及导出的域名
+ * @param domains 发生变化的域名列表
+ * @returns Promise<boolean> 启用导出且有域名匹配时返回true
+ */
+export async function isExportAffected(domains: string[]): Promise<boolean> {
+  const exportConfig = await getExportConfig();
+  if (!exportConfig) {
+    return false;
+  }
+  return domains.some(domain =>
+    exportConfig.domains.some(pattern => isCoveredByPattern(pattern, domain))
+  );
+}
+
+/**
+ * 获取导出域名的Cookie（按同步策略、禁止同步规则和各域名的Cookie过滤规则过滤）
+ * @param domains 导出的域名规则
+ * @returns Promise<Record<string, chrome.cookies.Cookie[]>> 域名 -> Cookie列表
+ */
+async function collectCookies(domains: string[]): Promise<Record<string, chrome.cookies.Cookie[]>> {
+  const cookieData: Record<string, chrome.cookies.Cookie[]> = {};
+  // 与加密同步使用同一套域名策略，Cookie所属域名不允许同步时不导出
+  const { syncPolicy } = await ConfigManager.getBaseConfig();
+  const domainConfigs = await ConfigManager.getAllDomainConfigs();
+  const isAllowed = (cookieDomain: string) =>
+    ConfigManager.isDomainSyncAllowedBy(domainConfigs, cookieDomain.replace(/^\./, ''), syncPolicy);
+
+  for (const pattern of domains) {
+    // chrome.cookies.getAll 的 domain 参数本身会匹配子域名，通配写法只取基础域名
+    const domain = normalizeDomain(pattern.replace(/^\*\./, ''));
+    if (!domain) {
+      continue;
+    }
+
+    const { cookiePolicy, cookieStores } = await ConfigManager.getDomainSyncConfig(domain);
+    const cookies = await getDomainCookies(domain, cookieStores);
+    const selected = cookies.filter(cookie =>
+      isCoveredByPattern(pattern, cookie.domain) &&
+      isAllowed(cookie.domain) &&
+      isIncludedByPolicy(cookie.name, cookiePolicy)
+    );
+    if (selected.length > 0) {
+      cookieData[domain] = selected;
+    }
+  }
+
+  return cookieData;
+}
+
+/**
+ * 导出选定域名的Cookie到原版 CookieCloud 服务端
+ * @param signal 取消信号（可选）
+ * @returns Promise<{success: boolean, message?: string}> 导出结果，未启用时返回成功
+ */
+export async function exportToCookieCloud(signal?: AbortSignal): Promise<{success: boolean, message?: string}> {
+  const exportConfig = await getExportConfig();
+  if (!exportConfig) {
+    return { success: true, message: '未启用 CookieCloud 兼容导出' };
+  }
+
+  const cookieData = await collectCookies(exportConfig.domains);
+  const payload: CookieCloudPayload = {
+    cookie_data: cookieData,
+    local_storage_data: {},
+    update_time: new Date().toISOString(),
+  };
+
+  const profile: EndpointProfile = {
+    id: COOKIECLOUD_EXPORT_ENDPOINT_ID,
+    name: 'CookieCloud 兼容导出',
+    url: exportConfig.url,
+    auth: exportConfig.auth,
+    transport: 'cookiecloud',
+    transportSettings: {
+      cookieCloudUuid: exportConfig.uuid,
+      cookieCloudPassword: exportConfig.password,
+    },
+    enabled: true,
+  };
+
+  let success = true;
+  let message = '导出到 CookieCloud 成功';
+  try {
+    const fetchFn = createTimeoutFetch(await ConfigManager.getRequestTimeout(), signal);
+    await new CookieCloudTransport(profile, fetchFn).uploadPayload(payload);
+  } catch (error) {
+    console.error('导出到 CookieCloud 失败:', error);
+    success = false;
+    message = error instanceof Error ? error.message : '导出到 CookieCloud 失败';
+  }
+
+  // 每个导出的域名记录一条上报历史
+  const timestamp = Date.now();
+  for (const [domain, cookies] of Object.entries(cookieData)) {
+    await ReportManager.addReport({
+      timestamp,
+      domain,
+      cookieCount: cookies.length,
+      headerCount: 0,
+      sharedWithKeys: [],
+      dataIdentifier: exportConfig.uuid,
+      endpointId: profile.id,
+      endpointName: profile.name,
+      success,
+      errorMessage: success ? undefined : message
+    });
+  }
+
+  return { success, message };
+}
+
+const cookieCloudExport = {
+  isExportAffected,
+  exportToCookieCloud
+};
+
+export default cookieCloudExport;
@@ -1,25 +1,97 @@
 /**
  * 域名数据状态管理
  * 管理域名相关的Cookie变更、请求头信息和Tab访问记录
+ * 状态会增量写入 chrome.storage.session，Service Worker 重启后自动恢复
+ * 隐身实例使用单独的状态管理器，存储键名带隐身前缀
  */
 
+import { getAllCookieDomains, getCookieKey } from '../utils/cookieStores';
+import { INCOGNITO_STORAGE_PREFIX, isIncognitoContext } from '../utils/incognito';
+import { getMatchingSnapshotRules } from '../utils/headerSnapshotMatcher';
+import { HeaderSnapshotRule } from './config';
+
+// 会话存储键名前缀
+const STATE_KEY_PREFIX = 'domainState:';
+const META_KEY = 'domainStateMeta';
+// 写入会话存储的防抖间隔（毫秒）
+const FLUSH_DELAY_MS = 1000;
+// Cookie删除记录的保留时间（毫秒），期间发送的数据都会携带删除记录
+const TOMBSTONE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Cookie变化类型
+export type CookieChangeType = 'added' | 'changed' | 'removed';
+
+// 单个Cookie自上次提取以来的最新变化
+export interface CookieChange {
+  type: CookieChangeType;                   // 变化类型
+  cookie: chrome.cookies.Cookie;            // 变化后的Cookie（删除时为被删除的Cookie）
+  cause: string;                            // 变化原因（chrome.cookies.OnChangedCause）
+}
+
+// Cookie删除记录
+export interface CookieTombstone {
+  name: string;                             // Cookie名称
+  domain: string;                           // Cookie域
+  path: string;                             // Cookie路径
+  secure: boolean;                          // 是否仅限HTTPS（删除时需要匹配协议）
+  storeId: string;                          // Cookie存储标识
+  partitionKey?: chrome.cookies.CookiePartitionKey; // 分区Cookie的分区键
+  cause: string;                            // 删除原因（chrome.cookies.OnChangedCause）
+  removedAt: number;                        // 删除时间
+}
+
+// 请求头快照（匹配快照规则的最近一次请求的完整请求头）
+export interface HeaderSnapshot {
+  name: string;                             // 快照名称（对应快照规则）
+  url: string;                              // 来源请求URL
+  method: string;                           // 来源请求方法
+  headers: Record<string, string>;          // 请求头信息
+  capturedAt: number;                       // 采集时间
+}
 
 // 域名状态接口
 interface DomainState {
   domain: string;                           // 域名
   cookieUpdated: boolean;                   // Cookie是否有更新
+  cookieChanges: Map<string, CookieChange>; // Cookie变化 (存储|分区|名称|路径 -> 变化)
+  tombstones: Map<string, CookieTombstone>; // 保留期内的Cookie删除记录 (存储|分区|名称|路径 -> 删除记录)
   headers: Map<string, string>;             // 请求头信息 (key -> value)
   updatedHeaderKeys: Set<string>;           // 更新的请求头key列表
+  headerSnapshots: Map<string, HeaderSnapshot>; // 请求头快照 (快照名称 -> 快照)
+  updatedSnapshotNames: Set<string>;        // 请求头有变化的快照名称
   accessTabs: Set<number>;                  // 访问该域名的Tab ID集合
   lastUpdate: number;                       // 最后更新时间
 }
 
+// 会话存储中的域名状态
+interface SerializedDomainState {
+  domain: string;
+  cookieUpdated: boolean;
+  cookieChanges?: Record<string, CookieChange>;
+  tombstones?: Record<string, CookieTombstone>;
+  headers: Record<string, string>;
+  updatedHeaderKeys: string[];
+  headerSnapshots?: Record<string, HeaderSnapshot>;
+  updatedSnapshotNames?: string[];
+  accessTabs: number[];
+  lastUpdate: number;
+}
+
+// 会话存储中的元数据
+interface DomainStateMeta {
+  lastExtractTime: number;
+}
+
 // 提取的域名数据接口
 export interface DomainData {
   domain: string;                           // 域名
   cookieUpdated: boolean;                   // Cookie是否有更新
+  cookieChanges: CookieChange[];            // 自上次提取以来的Cookie变化（强制提取时为空）
+  tombstones: CookieTombstone[];            // 保留期内的Cookie删除记录
   headers: Record<string, string>;          // 请求头信息
   updatedHeaderKeys: string[];              // 更新的请求头key列表
+  headerSnapshots: HeaderSnapshot[];        // 请求头快照
+  updatedSnapshotNames: string[];           // 请求头有变化的快照名称
   accessTabs: number[];                     // 访问该域名的Tab ID列表
   lastUpdate: number;                       // 最后更新时间
 }
@@ -29,22 +101,223 @@ export interface DomainData {
  */
 export class DomainStateManager {
   private static instance: DomainStateManager;
+  private static incognitoInstance: DomainStateManager;
+  private readonly stateKeyPrefix: string;          // 域名状态的存储键名前缀
+  private readonly metaKey: string;                 // 元数据的存储键名
   private domainStates: Map<string, DomainState> = new Map();
   private lastExtractTime: number = 0;
+  private dirtyDomains: Set<string> = new Set();     // 待写入的域名
+  private removedDomains: Set<string> = new Set();   // 待删除的域名
+  private metaDirty: boolean = false;                // 元数据是否待写入
+  private pendingClear: boolean = false;             // 是否需要清空存储中的全部状态
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private restorePromise: Promise<void> | null = null;
 
   // 私有构造函数，确保单例模式
-  private constructor() {}
+  private constructor(storagePrefix: string) {
+    this.stateKeyPrefix = storagePrefix + STATE_KEY_PREFIX;
+    this.metaKey = storagePrefix + META_KEY;
+  }
 
   /**
    * 获取单例实例
+   * 隐身实例返回单独的状态管理器，与普通窗口的采集数据隔离
    */
   public static getInstance(): DomainStateManager {
+    if (isIncognitoContext()) {
+      if (!DomainStateManager.incognitoInstance) {
+        DomainStateManager.incognitoInstance = new DomainStateManager(INCOGNITO_STORAGE_PREFIX);
+      }
+      return DomainStateManager.incognitoInstance;
+    }
     if (!DomainStateManager.instance) {
-      DomainStateManager.instance = new DomainStateManager();
+      DomainStateManager.instance = new DomainStateManager('');
     }
     return DomainStateManager.instance;
   }
 
+  /**
+   * 从会话存储恢复状态
+   * 恢复前已产生的内存状态会与存储中的状态合并
+   * @returns Promise<void>
+   */
+  public restore(): Promise<void> {
+    if (!this.restorePromise) {
+      this.restorePromise = this.loadFromStorage().catch(error => {
+        console.error('恢复域名状态失败:', error);
+      });
+    }
+    return this.restorePromise;
+  }
+
+  /**
+   * 等待状态恢复完成
+   * @returns Promise<void>
+   */
+  public async whenReady(): Promise<void> {
+    if (this.restorePromise) {
+      await this.restorePromise;
+    }
+  }
+
+  /**
+   * 读取会话存储中的状态并合并到内存
+   */
+  private async loadFromStorage(): Promise<void> {
+    const stored = await chrome.storage.session.get(null);
+
+    Object.entries(stored).forEach(([key, value]) => {
+      if (key === this.metaKey) {
+        const meta = value as DomainStateMeta;
+        // 恢复前已有提取操作时，以较新的时间为准
+        this.lastExtractTime = Math.max(this.lastExtractTime, meta.lastExtractTime || 0);
+        return;
+      }
+      // 恢复期间状态已被重置时，丢弃存储中的旧状态
+      if (!key.startsWith(this.stateKeyPrefix) || this.pendingClear) {
+        return;
+      }
+
+      const saved = value as SerializedDomainState;
+      const existing = this.domainStates.get(saved.domain);
+      if (!existing) {
+        this.domainStates.set(saved.domain, {
+          domain: saved.domain,
+          cookieUpdated: saved.cookieUpdated,
+          cookieChanges: new Map(Object.entries(saved.cookieChanges || {})),
+          tombstones: new Map(Object.entries(saved.tombstones || {})),
+          headers: new Map(Object.entries(saved.headers || {})),
+          updatedHeaderKeys: new Set(saved.updatedHeaderKeys || []),
+          headerSnapshots: new Map(Object.entries(saved.headerSnapshots || {})),
+          updatedSnapshotNames: new Set(saved.updatedSnapshotNames || []),
+          accessTabs: new Set(saved.accessTabs || []),
+          lastUpdate: saved.lastUpdate
+        });
+        return;
+      }
+
+      // 内存中的数据更新，只补充内存中没有的部分
+      existing.cookieUpdated = existing.cookieUpdated || saved.cookieUpdated;
+      Object.entries(saved.cookieChanges || {}).forEach(([cookieKey, change]) => {
+        if (!existing.cookieChanges.has(cookieKey)) {
+          existing.cookieChanges.set(cookieKey, change);
+        }
+      });
+      Object.entries(saved.tombstones || {}).forEach(([cookieKey, tombstone]) => {
+        // 内存中已有该Cookie的变化时，以内存中的为准
+        if (!existing.tombstones.has(cookieKey) && !existing.cookieChanges.has(cookieKey)) {
+          existing.tombstones.set(cookieKey, tombstone);
+        }
+      });
+      Object.entries(saved.headers || {}).forEach(([headerKey, headerValue]) => {
+        if (!existing.headers.has(headerKey)) {
+          existing.headers.set(headerKey, headerValue);
+        }
+      });
+      (saved.updatedHeaderKeys || []).forEach(headerKey => existing.updatedHeaderKeys.add(headerKey));
+      Object.entries(saved.headerSnapshots || {}).forEach(([name, snapshot]) => {
+        if (!existing.headerSnapshots.has(name)) {
+          existing.headerSnapshots.set(name, snapshot);
+        }
+      });
+      (saved.updatedSnapshotNames || []).forEach(name => existing.updatedSnapshotNames.add(name));
+      (saved.accessTabs || []).forEach(tabId => existing.accessTabs.add(tabId));
+      existing.lastUpdate = Math.max(existing.lastUpdate, saved.lastUpdate);
+      this.markDirty(saved.domain);
+    });
+  }
+
+  /**
+   * 序列化域名状态
+   * @param state 域名状态
+   * @returns 可存储的域名状态
+   */
+  private serializeState(state: DomainState): SerializedDomainState {
+    return {
+      domain: state.domain,
+      cookieUpdated: state.cookieUpdated,
+      cookieChanges: Object.fromEntries(state.cookieChanges),
+      tombstones: Object.fromEntries(state.tombstones),
+      headers: Object.fromEntries(state.headers),
+      updatedHeaderKeys: Array.from(state.updatedHeaderKeys),
+      headerSnapshots: Object.fromEntries(state.headerSnapshots),
+      updatedSnapshotNames: Array.from(state.updatedSnapshotNames),
+      accessTabs: Array.from(state.accessTabs),
+      lastUpdate: state.lastUpdate
+    };
+  }
+
+  /**
+   * 标记域名状态需要写入存储
+   * @param domain 域名
+   */
+  private markDirty(domain: string): void {
+    this.removedDomains.delete(domain);
+    this.dirtyDomains.add(domain);
+    this.scheduleFlush();
+  }
+
+  /**
+   * 标记域名状态需要从存储中删除
+   * @param domain 域名
+   */
+  private markRemoved(domain: string): void {
+    this.dirtyDomains.delete(domain);
+    this.removedDomains.add(domain);
+    this.scheduleFlush();
+  }
+
+  /**
+   * 防抖安排一次写入，避免在请求头回调中频繁写存储
+   */
+  private scheduleFlush(): void {
+    if (this.flushTimer !== null) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush().catch(error => {
+        console.error('保存域名状态失败:', error);
+      });
+    }, FLUSH_DELAY_MS);
+  }
+
+  /**
+   * 将待写入和待删除的状态同步到会话存储
+   * @returns Promise<void>
+   */
+  public async flush(): Promise<void> {
+    const items: Record<string, SerializedDomainState | DomainStateMeta> = {};
+    this.dirtyDomains.forEach(domain => {
+      const state = this.domainStates.get(domain);
+      if (state) {
+        items[this.stateKeyPrefix + domain] = this.serializeState(state);
+      }
+    });
+    if (this.metaDirty) {
+      items[this.metaKey] = { lastExtractTime: this.lastExtractTime };
+    }
+    let removedKeys = Array.from(this.removedDomains).map(domain => this.stateKeyPrefix + domain);
+    const clearAll = this.pendingClear;
+
+    this.dirtyDomains.clear();
+    this.removedDomains.clear();
+    this.metaDirty = false;
+    this.pendingClear = false;
+
+    if (clearAll) {
+      const stored = await chrome.storage.session.get(null);
+      removedKeys = Object.keys(stored).filter(key => key.startsWith(this.stateKeyPrefix) && !items[key]);
+    }
+
+    if (removedKeys.length > 0) {
+      await chrome.storage.session.remove(removedKeys);
+    }
+    if (Object.keys(items).length > 0) {
+      await chrome.storage.session.set(items);
+    }
+  }
+
   /**
    * 从URL中提取域名
    * @param url URL地址
@@ -70,8 +343,12 @@ export class DomainStateManager {
       this.domainStates.set(domain, {
         domain,
         cookieUpdated: false,
+        cookieChanges: new Map<string, CookieChange>(),
+        tombstones: new Map<string, CookieTombstone>(),
         headers: new Map<string, string>(),
         updatedHeaderKeys: new Set<string>(),
+        headerSnapshots: new Map<string, HeaderSnapshot>(),
+        updatedSnapshotNames: new Set<string>(),
         accessTabs: new Set<number>(),
         lastUpdate: Date.now()
       });
@@ -81,19 +358,59 @@ export class DomainStateManager {
 
   /**
    * 处理Cookie变更
+   * 同一Cookie只保留自上次提取以来的最新变化；覆盖写入时浏览器先触发原因为 overwrite 的删除事件，
+   * 再触发新增事件，合并记录为修改
    * @param changeInfo Cookie变更信息
    */
   public handleCookieChange(changeInfo: chrome.cookies.CookieChangeInfo): void {
-    const { cookie } = changeInfo;
+    const { cookie, removed, cause } = changeInfo;
     const domainState = this.getOrCreateDomainState(cookie.domain);
+    const cookieKey = getCookieKey(cookie);
+    const previous = domainState.cookieChanges.get(cookieKey);
+
+    let type: CookieChangeType;
+    if (removed && cause !== 'overwrite') {
+      type = 'removed';
+    } else if (previous?.type === 'added') {
+      // 上次提取后新增的Cookie，对端还没有，仍按新增处理
+      type = 'added';
+    } else {
+      // 被覆盖或删除后重新写入的Cookie按修改处理
+      type = previous || removed ? 'changed' : 'added';
+    }
+
+    domainState.cookieChanges.set(cookieKey, { type, cookie, cause });
+
+    // 删除的Cookie记录删除记录，重新写入后删除记录失效
+    if (type === 'removed') {
+      domainState.tombstones.set(cookieKey, {
+        name: cookie.name,
+        domain: cookie.domain,
+        path: cookie.path,
+        secure: cookie.secure,
+        storeId: cookie.storeId,
+        partitionKey: cookie.partitionKey,
+        cause,
+        removedAt: Date.now()
+      });
+    } else {
+      domainState.tombstones.delete(cookieKey);
+    }
     domainState.cookieUpdated = true;
+    domainState.lastUpdate = Date.now();
+    this.markDirty(cookie.domain);
   }
 
   /**
    * 处理请求头信息
+   * 请求头合并记录到域名的请求头中；匹配快照规则的请求另外把完整请求头保存为对应的快照
    * @param details 请求详情
+   * @param snapshotRules 域名生效的请求头快照规则
    */
-  public handleRequestHeaders(details: chrome.webRequest.WebRequestHeadersDetails): void {
+  public handleRequestHeaders(
+    details: chrome.webRequest.WebRequestHeadersDetails,
+    snapshotRules: HeaderSnapshotRule[] = []
+  ): void {
     const domain = this.extractDomain(details.url);
     if (!domain) return;
     
@@ -117,9 +434,49 @@ export class DomainStateManager {
           domainState.headers.set(headerKey, header.value);
         }
       }
+
+      for (const rule of getMatchingSnapshotRules(snapshotRules, details.url, details.method)) {
+        this.recordHeaderSnapshot(domainState, rule.name, details);
+      }
     }
     
     domainState.lastUpdate = Date.now();
+    this.markDirty(domain);
+  }
+
+  /**
+   * 记录请求头快照
+   * 请求头与已有快照相同时只更新来源URL和采集时间，不标记为变化
+   * @param domainState 域名状态
+   * @param name 快照名称
+   * @param details 请求详情
+   */
+  private recordHeaderSnapshot(
+    domainState: DomainState,
+    name: string,
+    details: chrome.webRequest.WebRequestHeadersDetails
+  ): void {
+    const headers: Record<string, string> = {};
+    for (const header of details.requestHeaders || []) {
+      if (header.name && header.value) {
+        headers[header.name.toLowerCase()] = header.value;
+      }
+    }
+
+    const previous = domainState.headerSnapshots.get(name);
+    const unchanged = !!previous && previous.method === details.method &&
+      Object.keys(previous.headers).length === Object.keys(headers).length &&
+      Object.entries(headers).every(([headerKey, headerValue]) => previous.headers[headerKey] === headerValue);
+    if (!unchanged) {
+      domainState.updatedSnapshotNames.add(name);
+    }
+    domainState.headerSnapshots.set(name, {
+      name,
+      url: details.url,
+      method: details.method,
+      headers,
+      capturedAt: Date.now()
+    });
   }
 
   /**
@@ -128,6 +485,7 @@ export class DomainStateManager {
    * @returns Promise<域名数据列表>
    */
   public async extractDomainData(sinceLastExtract: boolean = true): Promise<DomainData[]> {
+    await this.whenReady();
     const result: DomainData[] = [];
     const now = Date.now();
     
@@ -138,30 +496,26 @@ export class DomainStateManager {
           result.push({
             domain: state.domain,
             cookieUpdated: state.cookieUpdated,
+            cookieChanges: Array.from(state.cookieChanges.values()),
+            tombstones: this.getLiveTombstones(state, now),
             headers: Object.fromEntries(state.headers),
             updatedHeaderKeys: Array.from(state.updatedHeaderKeys),
+            headerSnapshots: Array.from(state.headerSnapshots.values()),
+            updatedSnapshotNames: Array.from(state.updatedSnapshotNames),
             accessTabs: Array.from(state.accessTabs),
             lastUpdate: state.lastUpdate
           });
           
           state.cookieUpdated = false;
+          state.cookieChanges.clear();
           state.updatedHeaderKeys.clear();
+          state.updatedSnapshotNames.clear();
+          this.markDirty(domain);
         }
       });
     } else {
-      // 使用Promise包装chrome.cookies.getAll
-      const domains = new Set<string>();
-      const cookies = await new Promise<chrome.cookies.Cookie[]>((resolve) => {
-        chrome.cookies.getAll({}, (cookies) => {
-          resolve(cookies);
-        });
-      });
-      
-      cookies.forEach(cookie => {
-        if (cookie.domain) {
-          domains.add(cookie.domain);
-        }
-      });
+      // 获取所有Cookie存储和分区中的Cookie域
+      const domains = await getAllCookieDomains();
 
       // 强制提取所有数据
       this.domainStates.forEach((state, domain) => {
@@ -169,22 +523,33 @@ export class DomainStateManager {
         result.push({
           domain: state.domain,
           cookieUpdated: true, // 强制提取时标记为需要更新
+          cookieChanges: [],
+          tombstones: this.getLiveTombstones(state, now),
           headers: Object.fromEntries(state.headers),
           updatedHeaderKeys: Array.from(state.headers.keys()),
+          headerSnapshots: Array.from(state.headerSnapshots.values()),
+          updatedSnapshotNames: Array.from(state.headerSnapshots.keys()),
           accessTabs: Array.from(state.accessTabs),
           lastUpdate: state.lastUpdate
         });
         
         state.cookieUpdated = false;
+        state.cookieChanges.clear();
         state.updatedHeaderKeys.clear();
+        state.updatedSnapshotNames.clear();
+        this.markDirty(domain);
       });
 
       domains.forEach(domain => {
         result.push({
           domain: domain,
           cookieUpdated: true, // 强制提取时标记为需要更新
+          cookieChanges: [],
+          tombstones: [],
           headers: {},
           updatedHeaderKeys: [],
+          headerSnapshots: [],
+          updatedSnapshotNames: [],
           accessTabs: [],
           lastUpdate: now
         });
@@ -192,20 +557,52 @@ export class DomainStateManager {
     }
     // 更新最后提取时间
     this.lastExtractTime = now;
+    this.metaDirty = true;
+    this.scheduleFlush();
     return result;
   }
 
+  /**
+   * 获取保留期内的Cookie删除记录，并清除过期的删除记录
+   * @param state 域名状态
+   * @param now 当前时间
+   * @returns CookieTombstone[] 删除记录列表
+   */
+  private getLiveTombstones(state: DomainState, now: number): CookieTombstone[] {
+    state.tombstones.forEach((tombstone, cookieKey) => {
+      if (now - tombstone.removedAt > TOMBSTONE_TTL_MS) {
+        state.tombstones.delete(cookieKey);
+      }
+    });
+    return Array.from(state.tombstones.values());
+  }
+
+  /**
+   * 获取域名已记录的请求头，不影响变化记录
+   * @param domain 域名
+   * @returns Promise<Record<string, string>> 请求头信息
+   */
+  public async getDomainHeaders(domain: string): Promise<Record<string, string>> {
+    await this.whenReady();
+    const state = this.domainStates.get(domain);
+    return state ? Object.fromEntries(state.headers) : {};
+  }
+
   /**
    * 清理过期数据
    * @param maxAgeMs 最大保留时间(毫秒)，默认24小时
+   * @returns Promise<void>
    */
-  public cleanupExpiredData(maxAgeMs: number = 24 * 60 * 60 * 1000): void {
+  public async cleanupExpiredData(maxAgeMs: number = 24 * 60 * 60 * 1000): Promise<void> {
+    // 等待持久化数据恢复完成，否则恢复的过期数据不会被清理
+    await this.whenReady();
     const now = Date.now();
     const expireTime = now - maxAgeMs;
     
     this.domainStates.forEach((state, domain) => {
       if (state.lastUpdate < expireTime) {
         this.domainStates.delete(domain);
+        this.markRemoved(domain);
       }
     });
   }
@@ -215,7 +612,12 @@ export class DomainStateManager {
    */
   public reset(): void {
     this.domainStates.clear();
+    this.dirtyDomains.clear();
+    this.removedDomains.clear();
     this.lastExtractTime = Date.now();
+    this.metaDirty = true;
+    this.pendingClear = true;
+    this.scheduleFlush();
   }
 
   /**
@@ -238,10 +640,11 @@ export class DomainStateManager {
    * @param tabId 标签页ID
    */
   public clearTabDomains(tabId: number): void {
-    this.domainStates.forEach((state) => {
+    this.domainStates.forEach((state, domain) => {
       // 从每个域名的accessTabs集合中移除该tabId
       if (state.accessTabs.has(tabId)) {
         state.accessTabs.delete(tabId);
+        this.markDirty(domain);
       }
     });
   }
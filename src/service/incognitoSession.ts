@@ -0,0 +1,71 @@
+/**
+ * 隐身会话管理
+ * 扩展以 split 模式运行时，隐身窗口由单独的扩展实例采集和同步；
+ * 最后一个隐身窗口关闭时清除隐身会话产生的采集数据和待发送数据
+ */
+
+import domainStateManager from './domainState';
+import ConfigManager from './config';
+import syncService from './syncService';
+import { INCOGNITO_STORAGE_PREFIX, isIncognitoContext } from '../utils/incognito';
+
+// 会话存储中标记隐身会话已初始化的键名
+const SESSION_MARKER_KEY = `${INCOGNITO_STORAGE_PREFIX}sessionStarted`;
+
+/**
+ * 清除隐身会话的数据
+ * 取消正在进行的同步，清空域名状态、待重试的数据和内容哈希，并移除会话标记
+ * @returns Promise<void>
+ */
+export async function wipeIncognitoSession(): Promise<void> {
+  if (!isIncognitoContext()) {
+    return;
+  }
+  syncService.cancelSync();
+  domainStateManager.reset();
+  await domainStateManager.flush();
+  await ConfigManager.clearIncognitoSessionData();
+  // 之后打开的隐身窗口是新的隐身会话，实例重启时需要重新初始化
+  await chrome.storage.session.remove(SESSION_MARKER_KEY);
+  console.info('隐身窗口已全部关闭，已清除隐身会话数据');
+}
+
+/**
+ * 检查是否还有打开的隐身窗口，没有时清除隐身会话的数据
+ * @returns Promise<void>
+ */
+export async function wipeIfNoIncognitoWindows(): Promise<void> {
+  if (!isIncognitoContext()) {
+    return;
+  }
+  const windows = await chrome.windows.getAll();
+  if (!windows.some(window => window.incognito)) {
+    await wipeIncognitoSession();
+  }
+}
+
+/**
+ * 隐身实例启动时清除上一个隐身会话遗留的数据
+ * 浏览器关闭最后一个隐身窗口时可能直接结束隐身实例，来不及清除
+ * @returns Promise<void>
+ */
+export async function startIncognitoSession(): Promise<void> {
+  if (!isIncognitoContext()) {
+    return;
+  }
+  const stored = await chrome.storage.session.get(SESSION_MARKER_KEY);
+  if (stored[SESSION_MARKER_KEY]) {
+    // Service Worker 被回收后重启，仍是同一个隐身会话
+    return;
+  }
+  await ConfigManager.clearIncognitoSessionData();
+  await chrome.storage.session.set({ [SESSION_MARKER_KEY]: Date.now() });
+}
+
+const incognitoSession = {
+  wipeIncognitoSession,
+  wipeIfNoIncognitoWindows,
+  startIncognitoSession
+};
+
+export default incognitoSession;
@@ -0,0 +1,240 @@
+/**
+ * 接收服务
+ * 从 endpoint 拉取对端共享的加密数据，验证签名、解密后写入本地浏览器
+ */
+
+import encryptionHandler, { EncryptableDomainData } from '../utils/encryptionHandler';
+import cookieCloudApiClient from '../utils/cookieCloudApiClient';
+import { verifyAndDecryptEnvelope } from '../utils/crypto';
+import { filterPeersForEndpoint, isDomainRoutedToEndpoint } from '../utils/endpointRouting';
+import ConfigManager, { PeerKeyInfo } from './config';
+import { CookieTombstone } from './domainState';
+import { selectReceivedCookieChanges } from '../utils/receivedCookies';
+import { checkFreshness, hasMissingDelta, isAlreadyApplied } from '../utils/receiveChecks';
+
+// 待拉取的数据项信息
+interface ReceiveTarget {
+  peer: PeerKeyInfo;      // 发送数据的对端
+  domain: string;         // 数据所属域名
+}
+
+/**
+ * 根据Cookie信息构建写入时使用的URL
+ * @param cookie Cookie对象
+ * @returns URL地址
+ */
+function buildCookieUrl(cookie: Pick<chrome.cookies.Cookie, 'domain' | 'path' | 'secure'>): string {
+  const host = cookie.domain.startsWith('.') ? cookie.domain.slice(1) : cookie.domain;
+  const protocol = cookie.secure ? 'https' : 'http';
+  return `${protocol}://${host}${cookie.path || '/'}`;
+}
+
+/**
+ * 将对端的Cookie写入本地浏览器
+ * @param cookie 对端发送的Cookie对象
+ * @returns Promise<boolean> 是否写入成功
+ */
+async function applyCookie(cookie: chrome.cookies.Cookie): Promise<boolean> {
+  const details: chrome.cookies.SetDetails = {
+    url: buildCookieUrl(cookie),
+    name: cookie.name,
+    value: cookie.value,
+    path: cookie.path,
+    secure: cookie.secure,
+    httpOnly: cookie.httpOnly,
+    sameSite: cookie.sameSite,
+  };
+
+  // hostOnly的Cookie不能指定domain，否则会变成域Cookie
+  if (!cookie.hostOnly) {
+    details.domain = cookie.domain;
+  }
+
+  // 分区Cookie写入发送方相同的分区；存储由接收方当前上下文决定，不使用发送方的存储标识
+  if (cookie.partitionKey) {
+    details.partitionKey = cookie.partitionKey;
+  }
+
+  // 会话Cookie不设置过期时间
+  if (!cookie.session && cookie.expirationDate) {
+    details.expirationDate = cookie.expirationDate;
+  }
+
+  try {
+    const result = await chrome.cookies.set(details);
+    return !!result;
+  } catch (error) {
+    console.error(`写入Cookie ${cookie.name}@${cookie.domain} 失败:`, error);
+    return false;
+  }
+}
+
+/**
+ * 删除对端已删除的Cookie
+ * @param cookie 对端发送的删除记录
+ * @returns Promise<boolean> 是否删除成功
+ */
+async function removeCookie(cookie: CookieTombstone): Promise<boolean> {
+  try {
+    const result = await chrome.cookies.remove({
+      url: buildCookieUrl(cookie),
+      name: cookie.name,
+      partitionKey: cookie.partitionKey,
+    });
+    return !!result;
+  } catch (error) {
+    console.error(`删除Cookie ${cookie.name}@${cookie.domain} 失败:`, error);
+    return false;
+  }
+}
+
+/**
+ * 从对端拉取数据并写入本地浏览器
+ * @returns Promise<{success: boolean, message?: string, appliedCount?: number}> 接收结果
+ */
+export async function receiveDomainData(): Promise<{success: boolean, message?: string, appliedCount?: number}> {
+  try {
+    // 隐身实例只在启用隐身窗口同步后接收
+    if (!(await ConfigManager.isContextSyncEnabled())) {
+      return { success: false, message: '未启用隐身窗口同步' };
+    }
+
+    const privateKey = await ConfigManager.getPrivateKey();
+    if (!privateKey) {
+      return { success: false, message: '未找到私钥，无法解密数据' };
+    }
+
+    const peers = await ConfigManager.getReceivePeerKeys();
+    const domains = await ConfigManager.getReceiveDomains();
+    const profiles = await ConfigManager.getEndpointProfiles();
+    const records = await ConfigManager.getReceiveRecords();
+    let appliedCount = 0;
+    let hasTarget = false;
+    const failedMessages: string[] = [];
+
+    for (const profile of profiles) {
+      // 1. 计算该endpoint负责的数据标识
+      const routedPeerKeys = new Set(filterPeersForEndpoint(profile, peers.map(peer => peer.publicKey)));
+      const targets = new Map<string, ReceiveTarget>();
+
+      for (const peer of peers) {
+        if (!routedPeerKeys.has(peer.publicKey)) {
+          continue;
+        }
+        for (const domain of domains) {
+          if (!isDomainRoutedToEndpoint(profile, domain)) {
+            continue;
+          }
+          const identifier = encryptionHandler.calculateKeyIdentifier(peer.publicKey, domain, peer.serviceName || '');
+          targets.set(identifier, { peer, domain });
+        }
+      }
+
+      if (targets.size === 0) {
+        continue;
+      }
+      hasTarget = true;
+
+      // 2. 从endpoint拉取数据
+      const result = await cookieCloudApiClient.getData(Array.from(targets.keys()), profile);
+      if (!result.success) {
+        failedMessages.push(`${profile.name}: ${result.message || '拉取失败'}`);
+        continue;
+      }
+
+      // 3. 验证、解密并写入浏览器
+      for (const [identifier, item] of Object.entries(result.data || {})) {
+        const target = targets.get(identifier);
+        if (!target || !item || !item.data) {
+          continue;
+        }
+
+        const record = records[identifier];
+
+        try {
+          // endpoint返回的时间戳没有签名，只在验证签名后按签名上下文判断是否已应用
+          const envelope = await verifyAndDecryptEnvelope(
+            privateKey,
+            target.peer.publicKey,
+            item.data,
+            identifier,
+            !!target.peer.rejectLegacyEnvelopes
+          );
+          if (isAlreadyApplied(envelope, record)) {
+            // 同一数据可能存在于多个endpoint，或endpoint上的数据还没有更新
+            continue;
+          }
+          const staleReason = checkFreshness(envelope, record, Date.now());
+          if (staleReason) {
+            console.warn(`忽略对端 ${target.peer.friendlyName} 的域名 ${target.domain} 数据: ${staleReason}`);
+            continue;
+          }
+          const payload = JSON.parse(envelope.data) as Omit<EncryptableDomainData, 'domain'>;
+          if (payload.format === 'delta' && hasMissingDelta(envelope, record)) {
+            // 不记录这份数据，等待对端下一次发送全量数据
+            console.warn(`对端 ${target.peer.friendlyName} 的域名 ${target.domain} 有未收到的增量数据，等待下一次全量数据`);
+            continue;
+          }
+
+          // 请求头无法直接写入浏览器，只处理Cookie；增量数据写入新增和修改的Cookie，并删除已删除的Cookie
+          // 只接受属于该数据域名的Cookie，丢弃对端试图写入或删除的其他域名Cookie
+          const { upserts, removals, rejectedCount } = selectReceivedCookieChanges(payload, target.domain);
+          if (rejectedCount > 0) {
+            console.warn(`对端 ${target.peer.friendlyName} 的域名 ${target.domain} 数据中有 ${rejectedCount} 个Cookie不属于该域名，已丢弃`);
+          }
+          for (const cookie of upserts) {
+            if (await applyCookie(cookie)) {
+              appliedCount++;
+            }
+          }
+          for (const tombstone of removals) {
+            if (await removeCookie(tombstone)) {
+              appliedCount++;
+            }
+          }
+
+          // 只记录签名中的时间戳和序列号，旧格式数据没有签名上下文时保留原记录
+          records[identifier] = {
+            timestamp: envelope.context?.timestamp ?? record?.timestamp ?? 0,
+            appliedTime: Date.now(),
+            sequence: envelope.context?.sequence ?? record?.sequence
+          };
+        } catch (error) {
+          console.error(`处理对端 ${target.peer.friendlyName} 的域名 ${target.domain} 数据失败:`, error);
+        }
+      }
+    }
+
+    if (!hasTarget) {
+      return { success: true, message: '没有需要接收的数据', appliedCount: 0 };
+    }
+
+    await ConfigManager.saveReceiveRecords(records);
+
+    if (failedMessages.length > 0) {
+      return {
+        success: false,
+        message: `已写入 ${appliedCount} 个Cookie，${failedMessages.join('；')}`,
+        appliedCount
+      };
+    }
+
+    return {
+      success: true,
+      message: `已写入 ${appliedCount} 个Cookie`,
+      appliedCount
+    };
+  } catch (error) {
+    console.error('接收域名数据失败:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : '接收过程中发生未知错误'
+    };
+  }
+}
+
+const receiveService = {
+  receiveDomainData
+};
+
+export default receiveService;
@@ -15,11 +15,15 @@ export interface SyncReport {
   timestamp: number;         // 上报时间戳
   domain: string;            // 上报域名
   cookieCount: number;       // Cookie数据条数
+  removedCookieCount?: number; // Cookie删除记录条数
   headerCount: number;       // 请求头数据条数
   sharedWithKeys: string[];  // 分享的公钥列表
   dataIdentifier: string;     // 加密密钥标识
   success: boolean;          // 上报是否成功
   errorMessage?: string;     // 错误信息（如果上报失败）
+  attempt?: number;          // 第几次发送（重试队列发送时记录）
+  endpointId?: string;       // 发送到的endpoint标识
+  endpointName?: string;     // 发送到的endpoint名称
 }
 
 /**
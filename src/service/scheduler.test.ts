@@ -0,0 +1,124 @@
+import type { BackoffOptions } from './scheduler';
+
+type SchedulerModule = typeof import('./scheduler');
+
+const BACKOFF: BackoffOptions = { baseDelayMs: 1000, maxDelayMs: 10000, jitterRatio: 0.2 };
+const MINUTE_BACKOFF: BackoffOptions = { baseDelayMs: 60 * 1000, maxDelayMs: 600 * 1000, jitterRatio: 0.2 };
+
+/**
+ * 模拟 chrome.alarms 和 chrome.storage.session
+ * @returns 已创建的 alarm 和会话存储内容
+ */
+function mockChrome() {
+  const alarms = new Map<string, chrome.alarms.AlarmCreateInfo>();
+  const session: Record<string, unknown> = {};
+  (global as any).chrome = {
+    alarms: {
+      create: async (name: string, info: chrome.alarms.AlarmCreateInfo) => {
+        alarms.set(name, info);
+      },
+      clear: async (name: string) => alarms.delete(name),
+      get: async (name: string) => {
+        const info = alarms.get(name);
+        return info && { name, scheduledTime: 0, periodInMinutes: info.periodInMinutes };
+      },
+      onAlarm: { addListener: jest.fn() },
+    },
+    storage: {
+      session: {
+        get: async (key: string) => ({ [key]: session[key] }),
+        set: async (items: Record<string, unknown>) => {
+          Object.assign(session, items);
+        },
+      },
+    },
+  };
+  return { alarms, session };
+}
+
+/**
+ * 在设置好 chrome 模拟对象后重新加载调度模块，避免单例在测试之间共享状态
+ * @returns 调度模块
+ */
+function loadScheduler(): SchedulerModule {
+  let module!: SchedulerModule;
+  jest.isolateModules(() => {
+    module = require('./scheduler');
+  });
+  return module;
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  delete (global as any).chrome;
+});
+
+describe('computeBackoffDelay', () => {
+  const { computeBackoffDelay } = loadScheduler();
+
+  it('没有抖动时按指数增长并受最大延迟限制', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    expect([1, 2, 3, 4, 5, 6].map(attempt => computeBackoffDelay(attempt, BACKOFF)))
+      .toEqual([1000, 2000, 4000, 8000, 10000, 10000]);
+  });
+
+  it('抖动在配置的比例范围内', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    expect(computeBackoffDelay(1, BACKOFF)).toBe(800);
+
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    expect(computeBackoffDelay(1, BACKOFF)).toBe(1200);
+  });
+
+  it('次数小于1时按首次重试计算', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(computeBackoffDelay(0, BACKOFF)).toBe(1000);
+  });
+});
+
+describe('scheduler', () => {
+  it('每次重试累计失败次数并按退避延迟安排任务', async () => {
+    const { alarms, session } = mockChrome();
+    const { default: scheduler } = loadScheduler();
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    expect(await scheduler.scheduleRetry('retry', MINUTE_BACKOFF)).toBe(60 * 1000);
+    expect(await scheduler.scheduleRetry('retry', MINUTE_BACKOFF)).toBe(120 * 1000);
+
+    expect(alarms.get('retry')).toEqual({ delayInMinutes: 2 });
+    expect(session.schedulerRetryAttempts).toEqual({ retry: 2 });
+  });
+
+  it('重置后清除失败次数并取消重试任务', async () => {
+    const { alarms, session } = mockChrome();
+    const { default: scheduler } = loadScheduler();
+
+    await scheduler.scheduleRetry('retry', BACKOFF);
+    await scheduler.scheduleRetry('other', BACKOFF);
+    await scheduler.resetRetry('retry');
+
+    expect(alarms.has('retry')).toBe(false);
+    expect(session.schedulerRetryAttempts).toEqual({ other: 1 });
+  });
+
+  it('一次性任务的延迟不小于 chrome.alarms 允许的最小值', async () => {
+    const { alarms } = mockChrome();
+    const { default: scheduler } = loadScheduler();
+
+    await scheduler.scheduleOnce('once', 1000);
+    expect(alarms.get('once')).toEqual({ delayInMinutes: 0.5 });
+  });
+
+  it('周期未变化时保留现有任务', async () => {
+    const { alarms } = mockChrome();
+    const { default: scheduler } = loadScheduler();
+
+    await scheduler.schedulePeriodic('periodic', 30, 5);
+    await scheduler.schedulePeriodic('periodic', 30, 1);
+    expect(alarms.get('periodic')).toEqual({ periodInMinutes: 30, delayInMinutes: 5 });
+
+    await scheduler.schedulePeriodic('periodic', 60, 1);
+    expect(alarms.get('periodic')).toEqual({ periodInMinutes: 60, delayInMinutes: 1 });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * 定时任务调度服务
+ * 基于 chrome.alarms 实现，Service Worker 被回收后仍能按时唤醒执行任务
+ * 采用单例模式确保只有一个实例
+ */
+
+// 任务名称定义
+export enum JobNames {
+  AUTO_SYNC = 'autoSync',             // 自动同步
+  AUTO_SYNC_RETRY = 'autoSyncRetry',  // 自动同步失败重试
+  CLEANUP = 'cleanup',                // 清理过期数据
+  SYNC_QUEUE_RETRY = 'syncQueueRetry', // 发送队列重试
+  AUTO_LOCK = 'autoLock'              // 自动锁定私钥
+}
+
+// 任务处理函数
+export type JobHandler = (alarm: chrome.alarms.Alarm) => Promise<void> | void;
+
+// 退避配置
+export interface BackoffOptions {
+  baseDelayMs: number;       // 首次重试延迟（毫秒）
+  maxDelayMs: number;        // 最大重试延迟（毫秒）
+  jitterRatio: number;       // 随机抖动比例（0~1）
+}
+
+// 默认退避配置
+const DEFAULT_BACKOFF: BackoffOptions = {
+  baseDelayMs: 60 * 1000,
+  maxDelayMs: 60 * 60 * 1000,
+  jitterRatio: 0.2,
+};
+
+// chrome.alarms 允许的最小延迟（分钟）
+const MIN_ALARM_DELAY_MINUTES = 0.5;
+// 会话存储中记录重试次数的键名
+const RETRY_ATTEMPTS_KEY = 'schedulerRetryAttempts';
+
+/**
+ * 计算指数退避延迟
+ * @param attempt 已失败次数（从1开始）
+ * @param options 退避配置
+ * @returns 延迟时间（毫秒）
+ */
+export function computeBackoffDelay(attempt: number, options: BackoffOptions = DEFAULT_BACKOFF): number {
+  const exponent = Math.max(attempt - 1, 0);
+  const delay = Math.min(options.baseDelayMs * Math.pow(2, exponent), options.maxDelayMs);
+  // 在 [1 - jitter, 1 + jitter] 范围内随机抖动，避免多个客户端同时重试
+  const jitter = 1 + (Math.random() * 2 - 1) * options.jitterRatio;
+  return Math.round(delay * jitter);
+}
+
+/**
+ * 定时任务调度类 - 单例模式
+ */
+class Scheduler {
+  private static instance: Scheduler | null = null;
+  private handlers: Map<string, JobHandler> = new Map();
+  private started: boolean = false;
+
+  /**
+   * 私有构造函数，防止外部直接创建实例
+   */
+  private constructor() {}
+
+  /**
+   * 获取 Scheduler 单例
+   * @returns Scheduler 实例
+   */
+  public static getInstance(): Scheduler {
+    if (!Scheduler.instance) {
+      Scheduler.instance = new Scheduler();
+    }
+    return Scheduler.instance;
+  }
+
+  /**
+   * 注册任务处理函数
+   * @param name 任务名称
+   * @param handler 处理函数
+   */
+  public registerJob(name: string, handler: JobHandler): void {
+    this.handlers.set(name, handler);
+  }
+
+  /**
+   * 开始监听 alarm 事件
+   * 需要在 Service Worker 顶层同步调用，确保被唤醒时事件能被处理
+   */
+  public start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    chrome.alarms.onAlarm.addListener((alarm) => {
+      this.handleAlarm(alarm);
+    });
+  }
+
+  /**
+   * 处理 alarm 事件
+   * @param alarm 触发的 alarm
+   */
+  private async handleAlarm(alarm: chrome.alarms.Alarm): Promise<void> {
+    const handler = this.handlers.get(alarm.name);
+    if (!handler) {
+      console.warn('未注册的定时任务:', alarm.name);
+      return;
+    }
+    try {
+      await handler(alarm);
+    } catch (error) {
+      console.error(`执行定时任务 ${alarm.name} 失败:`, error);
+    }
+  }
+
+  /**
+   * 设置周期任务，周期未变化时保留现有 alarm
+   * @param name 任务名称
+   * @param periodInMinutes 执行周期（分钟）
+   * @param delayInMinutes 首次执行延迟（分钟），默认等于周期
+   * @returns Promise<void>
+   */
+  public async schedulePeriodic(name: string, periodInMinutes: number, delayInMinutes?: number): Promise<void> {
+    const period = Math.max(periodInMinutes, MIN_ALARM_DELAY_MINUTES);
+    const existing = await chrome.alarms.get(name);
+    if (existing && existing.periodInMinutes === period) {
+      return;
+    }
+    await chrome.alarms.create(name, {
+      periodInMinutes: period,
+      delayInMinutes: Math.max(delayInMinutes ?? period, MIN_ALARM_DELAY_MINUTES),
+    });
+  }
+
+  /**
+   * 设置一次性任务，已存在的同名任务会被替换
+   * @param name 任务名称
+   * @param delayMs 延迟时间（毫秒）
+   * @returns Promise<void>
+   */
+  public async scheduleOnce(name: string, delayMs: number): Promise<void> {
+    await chrome.alarms.create(name, {
+      delayInMinutes: Math.max(delayMs / 60000, MIN_ALARM_DELAY_MINUTES),
+    });
+  }
+
+  /**
+   * 取消任务
+   * @param name 任务名称
+   * @returns Promise<boolean> 是否存在并已取消
+   */
+  public async cancel(name: string): Promise<boolean> {
+    return chrome.alarms.clear(name);
+  }
+
+  /**
+   * 按指数退避安排一次重试
+   * @param name 重试任务名称
+   * @param options 退避配置
+   * @returns Promise<number> 本次重试的延迟时间（毫秒）
+   */
+  public async scheduleRetry(name: string, options: BackoffOptions = DEFAULT_BACKOFF): Promise<number> {
+    const attempts = await this.getRetryAttempts();
+    const attempt = (attempts[name] || 0) + 1;
+    attempts[name] = attempt;
+    await chrome.storage.session.set({ [RETRY_ATTEMPTS_KEY]: attempts });
+
+    const delay = computeBackoffDelay(attempt, options);
+    await this.scheduleOnce(name, delay);
+    return delay;
+  }
+
+  /**
+   * 重置重试状态并取消待执行的重试
+   * @param name 重试任务名称
+   * @returns Promise<void>
+   */
+  public async resetRetry(name: string): Promise<void> {
+    const attempts = await this.getRetryAttempts();
+    if (attempts[name]) {
+      delete attempts[name];
+      await chrome.storage.session.set({ [RETRY_ATTEMPTS_KEY]: attempts });
+    }
+    await this.cancel(name);
+  }
+
+  /**
+   * 获取各任务的重试次数
+   * @returns Promise<Record<string, number>> 任务名称 -> 已失败次数
+   */
+  private async getRetryAttempts(): Promise<Record<string, number>> {
+    const result = await chrome.storage.session.get(RETRY_ATTEMPTS_KEY);
+    return (result[RETRY_ATTEMPTS_KEY] as Record<string, number>) || {};
+  }
+}
+
+// 创建并导出单例实例
+const scheduler = Scheduler.getInstance();
+export default scheduler;
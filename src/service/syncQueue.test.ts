@@ -0,0 +1,209 @@
+/**
+ * @jest-environment node
+ */
+
+import type { QueuedReportInfo, QueuedSyncItem } from './syncQueue';
+
+type SyncQueueModule = typeof import('./syncQueue');
+
+const NOW = 1700000000000;
+const ENDPOINT = 'https://sync.example.net';
+
+/**
+ * 模拟 chrome.storage 和 chrome.alarms
+ * @returns 本地存储内容和已创建的 alarm
+ */
+function mockChrome() {
+  const local: Record<string, any> = {
+    config: { serviceName: 'browser', endpoint: ENDPOINT },
+  };
+  const session: Record<string, unknown> = {};
+  const alarms = new Map<string, chrome.alarms.AlarmCreateInfo>();
+  (global as any).chrome = {
+    storage: {
+      local: {
+        get: (key: string, callback: (result: Record<string, unknown>) => void) => callback({ [key]: local[key] }),
+        set: (items: Record<string, unknown>, callback: () => void) => {
+          Object.assign(local, items);
+          callback();
+        },
+      },
+      session: {
+        get: async (key: string) => ({ [key]: session[key] }),
+        set: async (items: Record<string, unknown>) => {
+          Object.assign(session, items);
+        },
+      },
+    },
+    alarms: {
+      create: async (name: string, info: chrome.alarms.AlarmCreateInfo) => {
+        alarms.set(name, info);
+      },
+      clear: async (name: string) => alarms.delete(name),
+    },
+  };
+  return { local, alarms };
+}
+
+/**
+ * 在设置好 chrome 模拟对象后加载发送队列及其依赖，发送和上报历史使用模拟实现
+ * @param sendResult 模拟的发送结果
+ * @returns 发送队列模块和模拟的发送函数
+ */
+function loadSyncQueue(sendResult: { success: boolean, message?: string }) {
+  let module!: SyncQueueModule;
+  let setData!: jest.SpyInstance;
+  jest.isolateModules(() => {
+    const apiClient = require('../utils/cookieCloudApiClient').default;
+    setData = jest.spyOn(apiClient, 'setData').mockImplementation(async (...args: unknown[]) => {
+      const keys = Array.from((args[0] as Map<string, unknown>).keys());
+      return { ...sendResult, chunks: [{ keys, ...sendResult }] };
+    });
+    jest.spyOn(require('./reportHistory').default, 'addReport').mockResolvedValue(undefined);
+    module = require('./syncQueue');
+  });
+  return { syncQueue: module.default, setData };
+}
+
+const createEntry = (dataIdentifier: string, timestamp: number, endpointId?: string) => ({
+  item: { data: `data-${timestamp}`, timestamp },
+  report: {
+    domain: 'example.com',
+    cookieCount: 1,
+    headerCount: 0,
+    sharedWithKeys: ['peer'],
+    dataIdentifier,
+    endpointId,
+    endpointName: '默认',
+  } as QueuedReportInfo,
+  contentHash: `hash-${timestamp}`,
+});
+
+const getQueue = (local: Record<string, any>): Record<string, QueuedSyncItem> => local.syncQueue || {};
+
+beforeEach(() => {
+  jest.spyOn(Date, 'now').mockReturnValue(NOW);
+  jest.spyOn(Math, 'random').mockReturnValue(0.5);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  delete (global as any).chrome;
+});
+
+describe('syncQueue.enqueue', () => {
+  it('加入队列后按退避时间安排重试', async () => {
+    const { local, alarms } = mockChrome();
+    const { syncQueue } = loadSyncQueue({ success: true });
+
+    await syncQueue.enqueue([createEntry('id-1', 1)], '网络错误');
+
+    expect(getQueue(local)['default:id-1']).toMatchObject({
+      attempts: 1,
+      nextAttemptTime: NOW + 60 * 1000,
+      lastError: '网络错误',
+      contentHash: 'hash-1',
+    });
+    expect(alarms.get('syncQueueRetry')).toEqual({ delayInMinutes: 1 });
+  });
+
+  it('同一数据标识用较新的数据替换并累计发送次数', async () => {
+    const { local } = mockChrome();
+    const { syncQueue } = loadSyncQueue({ success: true });
+
+    await syncQueue.enqueue([createEntry('id-1', 1)], '网络错误');
+    await syncQueue.enqueue([createEntry('id-1', 2)], '网络错误');
+    // 较旧的数据不会替换队列中的数据
+    await syncQueue.enqueue([createEntry('id-1', 0)], '网络错误');
+
+    const queue = getQueue(local);
+    expect(Object.keys(queue)).toEqual(['default:id-1']);
+    expect(queue['default:id-1']).toMatchObject({
+      item: { timestamp: 2 },
+      contentHash: 'hash-2',
+      attempts: 3,
+      nextAttemptTime: NOW + 4 * 60 * 1000,
+    });
+  });
+
+  it('同一数据标识发往不同endpoint时分别排队', async () => {
+    const { local } = mockChrome();
+    const { syncQueue } = loadSyncQueue({ success: true });
+
+    await syncQueue.enqueue([createEntry('id-1', 1), createEntry('id-1', 1, 'other')], '网络错误');
+
+    expect(Object.keys(getQueue(local)).sort()).toEqual(['default:id-1', 'other:id-1']);
+    expect(await syncQueue.getQueuedIdentifiers('other')).toEqual(new Set(['id-1']));
+  });
+});
+
+describe('syncQueue.flush', () => {
+  it('未到重试时间的数据不发送，强制发送时忽略退避时间', async () => {
+    mockChrome();
+    const { syncQueue, setData } = loadSyncQueue({ success: true });
+    await syncQueue.enqueue([createEntry('id-1', 1)], '网络错误');
+
+    expect(await syncQueue.flush()).toEqual({ success: true, message: '没有需要重试的数据' });
+    expect(setData).not.toHaveBeenCalled();
+
+    await syncQueue.flush(true);
+    expect(setData).toHaveBeenCalledTimes(1);
+  });
+
+  it('发送成功后移除数据项并记录内容哈希', async () => {
+    const { local, alarms } = mockChrome();
+    const { syncQueue } = loadSyncQueue({ success: true });
+    await syncQueue.enqueue([createEntry('id-1', 1)], '网络错误');
+
+    const result = await syncQueue.flush(true);
+
+    expect(result.success).toBe(true);
+    expect(getQueue(local)).toEqual({});
+    expect(alarms.has('syncQueueRetry')).toBe(false);
+    expect(JSON.stringify(local.syncedHashes)).toContain('hash-1');
+    expect(local.config.lastSyncTime).toBe(NOW);
+  });
+
+  it('发送失败时累计次数并按退避时间重新安排', async () => {
+    const { local } = mockChrome();
+    const { syncQueue } = loadSyncQueue({ success: false, message: 'HTTP错误: 502' });
+    await syncQueue.enqueue([createEntry('id-1', 1)], '网络错误');
+
+    const result = await syncQueue.flush(true);
+
+    expect(result.success).toBe(false);
+    expect(getQueue(local)['default:id-1']).toMatchObject({
+      attempts: 2,
+      nextAttemptTime: NOW + 2 * 60 * 1000,
+      lastError: 'HTTP错误: 502',
+    });
+    expect(local.syncedHashes).toBeUndefined();
+  });
+
+  it('达到最大发送次数后放弃数据项', async () => {
+    const { local } = mockChrome();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const { syncQueue } = loadSyncQueue({ success: false, message: 'HTTP错误: 502' });
+    local.syncQueue = {
+      'default:id-1': { ...createEntry('id-1', 1), attempts: 8, nextAttemptTime: NOW },
+      'default:id-2': { ...createEntry('id-2', 1), attempts: 9, nextAttemptTime: NOW },
+    };
+
+    await syncQueue.flush();
+
+    expect(Object.keys(getQueue(local))).toEqual(['default:id-1']);
+    expect(getQueue(local)['default:id-1'].attempts).toBe(9);
+  });
+
+  it('endpoint已删除时放弃发往它的数据', async () => {
+    const { local } = mockChrome();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const { syncQueue, setData } = loadSyncQueue({ success: true });
+    await syncQueue.enqueue([createEntry('id-1', 1, 'removed')], '网络错误');
+
+    await syncQueue.flush(true);
+
+    expect(setData).not.toHaveBeenCalled();
+    expect(getQueue(local)).toEqual({});
+  });
+});
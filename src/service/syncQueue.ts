@@ -0,0 +1,296 @@
+/**
+ * 同步发送队列
+ * 持久化发送失败的数据项，按指数退避（带随机抖动）重试
+ * 同一数据标识只保留最新的数据，每次重试都会记录到上报历史
+ */
+
+import cookieCloudApiClient, { CookieCloudDataItem, getKeyResult } from '../utils/cookieCloudApiClient';
+import ConfigManager, { DEFAULT_ENDPOINT_ID, StorageKeys } from './config';
+import ReportManager, { SyncReport } from './reportHistory';
+import scheduler, { JobNames, computeBackoffDelay } from './scheduler';
+
+// 最大发送次数，超过后放弃该数据项
+const MAX_ATTEMPTS = 10;
+
+// 队列中的报告信息（发送时补充时间和结果）
+export type QueuedReportInfo = Omit<SyncReport, 'id' | 'timestamp' | 'success' | 'errorMessage' | 'attempt'>;
+
+/**
+ * 计算数据项在队列中的键，同一数据标识发往不同endpoint时分别排队
+ * @param endpointId endpoint标识
+ * @param dataIdentifier 数据标识
+ * @returns 队列键
+ */
+export function getQueueKey(endpointId: string | undefined, dataIdentifier: string): string {
+  return `${endpointId || DEFAULT_ENDPOINT_ID}:${dataIdentifier}`;
+}
+
+// 待发送的数据项
+export interface QueuedSyncItem {
+  item: CookieCloudDataItem;      // 发送给endpoint的数据
+  report: QueuedReportInfo;       // 上报记录信息
+  contentHash?: string;           // 数据内容哈希，发送成功后记录，内容不变时不再发送
+  attempts: number;               // 已发送次数
+  nextAttemptTime: number;        // 下次发送时间
+  lastError?: string;             // 最近一次失败原因
+}
+
+/**
+ * 同步发送队列类 - 单例模式
+ */
+class SyncQueue {
+  private static instance: SyncQueue | null = null;
+  // 串行执行队列操作，避免并发读写存储时相互覆盖
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * 私有构造函数，防止外部直接创建实例
+   */
+  private constructor() {}
+
+  /**
+   * 获取 SyncQueue 单例
+   * @returns SyncQueue 实例
+   */
+  public static getInstance(): SyncQueue {
+    if (!SyncQueue.instance) {
+      SyncQueue.instance = new SyncQueue();
+    }
+    return SyncQueue.instance;
+  }
+
+  /**
+   * 串行执行队列操作
+   * @param task 操作函数
+   * @returns Promise<T> 操作结果
+   */
+  private runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(task, task);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * 读取队列
+   * @returns Promise<Record<string, QueuedSyncItem>> 队列键 -> 待发送数据项
+   */
+  private async load(): Promise<Record<string, QueuedSyncItem>> {
+    const queue = await ConfigManager.getConfig<Record<string, QueuedSyncItem>>(StorageKeys.SYNC_QUEUE);
+    return queue || {};
+  }
+
+  /**
+   * 保存队列并按最早的发送时间安排重试
+   * @param queue 队列键 -> 待发送数据项
+   */
+  private async save(queue: Record<string, QueuedSyncItem>): Promise<void> {
+    await ConfigManager.saveConfig(StorageKeys.SYNC_QUEUE, queue);
+
+    const items = Object.values(queue);
+    if (items.length === 0) {
+      await scheduler.cancel(JobNames.SYNC_QUEUE_RETRY);
+      return;
+    }
+    const nextAttemptTime = Math.min(...items.map(entry => entry.nextAttemptTime));
+    await scheduler.scheduleOnce(JobNames.SYNC_QUEUE_RETRY, nextAttemptTime - Date.now());
+  }
+
+  /**
+   * 获取队列中所有待发送的数据项
+   * @returns Promise<QueuedSyncItem[]> 待发送数据项列表
+   */
+  async getItems(): Promise<QueuedSyncItem[]> {
+    return Object.values(await this.load());
+  }
+
+  /**
+   * 获取endpoint在队列中的数据标识
+   * @param endpointId endpoint标识
+   * @returns Promise<Set<string>> 数据标识集合
+   */
+  async getQueuedIdentifiers(endpointId: string): Promise<Set<string>> {
+    const queue = await this.load();
+    return new Set(Object.values(queue)
+      .filter(entry => (entry.report.endpointId || DEFAULT_ENDPOINT_ID) === endpointId)
+      .map(entry => entry.report.dataIdentifier));
+  }
+
+  /**
+   * 将发送失败的数据加入队列
+   * 同一endpoint的同一数据标识已在队列中时，用较新的数据替换旧数据并累计发送次数
+   * @param entries 发送失败的数据项（含内容哈希）
+   * @param errorMessage 失败原因
+   * @returns Promise<void>
+   */
+  async enqueue(
+    entries: { item: CookieCloudDataItem, report: QueuedReportInfo, contentHash?: string }[],
+    errorMessage: string
+  ): Promise<void> {
+    return this.runExclusive(async () => {
+      const queue = await this.load();
+      const now = Date.now();
+
+      for (const { item, report, contentHash } of entries) {
+        const queueKey = getQueueKey(report.endpointId, report.dataIdentifier);
+        const existing = queue[queueKey];
+        const attempts = (existing?.attempts || 0) + 1;
+        // 队列中的数据更新时保留队列中的数据
+        const newer = existing && (existing.item.timestamp || 0) > (item.timestamp || 0);
+
+        queue[queueKey] = {
+          item: newer ? existing.item : item,
+          report: newer ? existing.report : report,
+          contentHash: newer ? existing.contentHash : contentHash,
+          attempts,
+          nextAttemptTime: now + computeBackoffDelay(attempts),
+          lastError: errorMessage
+        };
+      }
+
+      await this.save(queue);
+    });
+  }
+
+  /**
+   * 移除已被新数据覆盖的数据项
+   * @param endpointId endpoint标识
+   * @param dataIdentifiers 数据标识列表
+   * @returns Promise<void>
+   */
+  async remove(endpointId: string, dataIdentifiers: string[]): Promise<void> {
+    return this.runExclusive(async () => {
+      const queue = await this.load();
+      let changed = false;
+      for (const dataIdentifier of dataIdentifiers) {
+        const queueKey = getQueueKey(endpointId, dataIdentifier);
+        if (queue[queueKey]) {
+          delete queue[queueKey];
+          changed = true;
+        }
+      }
+      if (changed) {
+        await this.save(queue);
+      }
+    });
+  }
+
+  /**
+   * 发送队列中的数据，按endpoint分组发送
+   * @param force 是否忽略退避时间，发送所有数据项
+   * @param endpointId 只发送指定endpoint的数据（可选）
+   * @param signal 取消信号（可选），取消后不再发送剩余endpoint的数据
+   * @returns Promise<{success: boolean, message?: string}> 发送结果
+   */
+  async flush(
+    force: boolean = false,
+    endpointId?: string,
+    signal?: AbortSignal
+  ): Promise<{success: boolean, message?: string}> {
+    return this.runExclusive(async () => {
+      const queue = await this.load();
+      const now = Date.now();
+      const dueGroups = new Map<string, [string, QueuedSyncItem][]>();
+      for (const [queueKey, entry] of Object.entries(queue)) {
+        const entryEndpointId = entry.report.endpointId || DEFAULT_ENDPOINT_ID;
+        if (endpointId && entryEndpointId !== endpointId) {
+          continue;
+        }
+        if (!force && entry.nextAttemptTime > now) {
+          continue;
+        }
+        const group = dueGroups.get(entryEndpointId) || [];
+        group.push([queueKey, entry]);
+        dueGroups.set(entryEndpointId, group);
+      }
+
+      if (dueGroups.size === 0) {
+        return { success: true, message: '没有需要重试的数据' };
+      }
+
+      let allSuccess = true;
+      const messages: string[] = [];
+
+      for (const [groupEndpointId, dueItems] of Array.from(dueGroups.entries())) {
+        if (signal?.aborted) {
+          allSuccess = false;
+          messages.push('同步已取消');
+          break;
+        }
+
+        const profile = await ConfigManager.getEndpointProfile(groupEndpointId);
+        if (!profile) {
+          // endpoint已被删除或停用，放弃发往它的数据
+          console.warn(`endpoint ${groupEndpointId} 不存在或已停用，放弃 ${dueItems.length} 条待发送数据`);
+          dueItems.forEach(([queueKey]) => delete queue[queueKey]);
+          continue;
+        }
+
+        const apiDataMap = new Map<string, CookieCloudDataItem>();
+        dueItems.forEach(([, entry]) => {
+          apiDataMap.set(entry.report.dataIdentifier, entry.item);
+        });
+
+        const result = await cookieCloudApiClient.setData(apiDataMap, profile, signal);
+        const timestamp = Date.now();
+        const hashUpdates: Record<string, string | null> = {};
+        let acceptedCount = 0;
+
+        for (const [queueKey, entry] of dueItems) {
+          const attempt = entry.attempts + 1;
+          // 按数据项所在批次的结果处理
+          const keyResult = getKeyResult(result, entry.report.dataIdentifier);
+          await ReportManager.addReport({
+            ...entry.report,
+            timestamp,
+            attempt,
+            success: keyResult.success,
+            errorMessage: keyResult.success ? undefined : (keyResult.message || '同步失败')
+          });
+
+          if (keyResult.success) {
+            acceptedCount++;
+            delete queue[queueKey];
+            if (entry.contentHash) {
+              hashUpdates[entry.report.dataIdentifier] = entry.contentHash;
+            }
+          } else if (attempt >= MAX_ATTEMPTS) {
+            // 超过最大发送次数，放弃该数据项
+            console.warn(`数据 ${queueKey} 重试 ${attempt} 次仍失败，已放弃`);
+            delete queue[queueKey];
+          } else {
+            queue[queueKey] = {
+              ...entry,
+              attempts: attempt,
+              nextAttemptTime: timestamp + computeBackoffDelay(attempt),
+              lastError: keyResult.message
+            };
+          }
+        }
+
+        // 与直接发送一样记录发送成功的数据内容哈希，内容不变时下次不再发送
+        if (Object.keys(hashUpdates).length > 0) {
+          await ConfigManager.saveSyncedContentHashes(profile, hashUpdates, timestamp);
+        }
+        if (acceptedCount > 0) {
+          await ConfigManager.updateBaseConfig({
+            lastSyncTime: timestamp
+          });
+        }
+        if (!result.success) {
+          allSuccess = false;
+          messages.push(`${profile.name}: ${result.message || '同步失败'}`);
+        }
+      }
+
+      await this.save(queue);
+      return {
+        success: allSuccess,
+        message: allSuccess ? '队列数据发送成功' : messages.join('；')
+      };
+    });
+  }
+}
+
+// 创建并导出单例实例
+const syncQueue = SyncQueue.getInstance();
+export default syncQueue;
@@ -3,96 +3,346 @@
  * 整合域名状态管理、加密处理和API发送功能
  */
 
-import domainStateManager from './domainState';
-import encryptionHandler, { EncryptableDomainData } from '../utils/encryptionHandler';
-import cookieCloudApiClient, { CookieCloudDataItem } from '../utils/cookieCloudApiClient';
-import ConfigManager from './config';
+import domainStateManager, { DomainData } from './domainState';
+import encryptionHandler, { EncryptableDomainData, PayloadFormat } from '../utils/encryptionHandler';
+import cookieCloudApiClient, { CookieCloudDataItem, getKeyResult } from '../utils/cookieCloudApiClient';
+import ConfigManager, { EndpointProfile } from './config';
 import ReportManager, { SyncReport } from './reportHistory';
+import syncQueue, { QueuedReportInfo } from './syncQueue';
+import cookieCloudExport, { COOKIECLOUD_EXPORT_ENDPOINT_ID } from './cookieCloudExport';
+import { isIncognitoContext } from '../utils/incognito';
+
+// 同步结果
+export interface SyncResult {
+  success: boolean;             // 是否成功
+  message?: string;             // 结果信息
+  busy?: boolean;               // 已有同步正在进行，本次未执行
+  retryable?: boolean;          // 失败是否由网络或服务端的临时错误导致，只有这类失败需要退避重试
+}
+
+// 正在进行的同步的取消控制器，同一时间只允许一个同步执行
+let activeSync: AbortController | null = null;
+
+// 单个endpoint的同步结果
+interface EndpointSyncResult {
+  success: boolean;             // 是否成功
+  message?: string;             // 结果信息
+  sentCount: number;            // 发送的数据项数量
+}
+
+/**
+ * 加密并发送数据到单个endpoint
+ * @param profile endpoint配置
+ * @param domainDataList 域名数据列表
+ * @param timestamp 发送时间戳
+ * @param format 数据格式
+ * @param signal 取消信号
+ * @returns Promise<EndpointSyncResult> 同步结果
+ */
+async function syncToEndpoint(
+  profile: EndpointProfile,
+  domainDataList: DomainData[],
+  timestamp: number,
+  format: PayloadFormat,
+  signal: AbortSignal
+): Promise<EndpointSyncResult> {
+  // 收集同步报告的数组
+  const syncReports: Omit<SyncReport, 'id'>[] = [];
+  // 数据标识 -> 内容哈希，发送成功后记录
+  const contentHashes = new Map<string, string>();
+
+  // 发送队列中的增量数据会被新数据替换，这些数据标识改为发送全量，避免丢失队列中的变化
+  const queuedIdentifiers = format === 'delta' ? await syncQueue.getQueuedIdentifiers(profile.id) : new Set<string>();
+
+  // 1. 加密该endpoint负责的域名数据，添加回调函数收集同步报告
+  const encryptedDataMap = await encryptionHandler.encryptDomainDataBatch(
+    domainDataList,
+    async (encryptableData: EncryptableDomainData, peerPublicKeys: string[], dataIdentifier: string, contentHash: string) => {
+      contentHashes.set(dataIdentifier, contentHash);
+
+      // 收集同步报告
+      syncReports.push({
+        timestamp: Date.now(),
+        domain: encryptableData.domain,
+        cookieCount: encryptableData.cookies.length
+          + (encryptableData.added?.length || 0)
+          + (encryptableData.changed?.length || 0),
+        removedCookieCount: encryptableData.removed?.length || 0,
+        headerCount: Object.keys(encryptableData.headers || {}).length
+          + (encryptableData.headerSnapshots || [])
+            .reduce((count, snapshot) => count + Object.keys(snapshot.headers).length, 0),
+        sharedWithKeys: peerPublicKeys,
+        dataIdentifier, // 记录加密密钥
+        endpointId: profile.id,
+        endpointName: profile.name,
+        success: true // 先假设成功，如果后续失败会更新
+      });
+
+      return encryptableData; // 返回原始数据，不做修改
+    },
+    timestamp,
+    profile,
+    format,
+    queuedIdentifiers
+  );
+
+  if (encryptedDataMap.size === 0) {
+    return { success: true, message: '没有需要发送的加密数据', sentCount: 0 };
+  }
+
+  // 2. 准备API发送的数据格式
+  const apiDataMap = new Map<string, CookieCloudDataItem>();
+
+  // 将加密数据转换为API需要的格式
+  encryptedDataMap.forEach((encryptedData, key) => {
+    apiDataMap.set(key, {
+      data: encryptedData,
+      timestamp: timestamp
+    });
+  });
+
+  // 新数据会覆盖发送队列中同一标识的旧数据
+  await syncQueue.remove(profile.id, Array.from(apiDataMap.keys()));
+
+  // 3. 分批发送数据到endpoint
+  const result = await cookieCloudApiClient.setData(apiDataMap, profile, signal);
+
+  // 4. 按每个域名所在批次的结果保存同步报告，只把失败批次中的数据加入发送队列
+  const queueEntries: { item: CookieCloudDataItem, report: QueuedReportInfo, contentHash?: string }[] = [];
+  const hashUpdates: Record<string, string | null> = {};
+  let acceptedCount = 0;
+  for (const report of syncReports) {
+    const keyResult = getKeyResult(result, report.dataIdentifier);
+    if (keyResult.success) {
+      acceptedCount++;
+      const contentHash = contentHashes.get(report.dataIdentifier);
+      if (contentHash) {
+        hashUpdates[report.dataIdentifier] = contentHash;
+      }
+    } else {
+      // 发送失败的数据进入重试队列，清除记录保证内容恢复原样时仍会发送并覆盖队列中的数据
+      hashUpdates[report.dataIdentifier] = null;
+      report.success = false;
+      report.errorMessage = keyResult.message || '同步失败';
+
+      const item = apiDataMap.get(report.dataIdentifier);
+      if (item) {
+        queueEntries.push({
+          item,
+          report: {
+            domain: report.domain,
+            cookieCount: report.cookieCount,
+            removedCookieCount: report.removedCookieCount,
+            headerCount: report.headerCount,
+            sharedWithKeys: report.sharedWithKeys,
+            dataIdentifier: report.dataIdentifier,
+            endpointId: report.endpointId,
+            endpointName: report.endpointName
+          },
+          contentHash: contentHashes.get(report.dataIdentifier)
+        });
+      }
+    }
+    await ReportManager.addReport(report);
+  }
+
+  // 5. 记录发送成功的数据内容哈希，内容不变时下次不再发送
+  await ConfigManager.saveSyncedContentHashes(profile, hashUpdates, timestamp);
+
+  // 6. 有批次发送成功时，更新最后同步时间
+  if (acceptedCount > 0) {
+    await ConfigManager.updateBaseConfig({
+      lastSyncTime: timestamp
+    });
+  }
+
+  if (result.success) {
+    // endpoint 已恢复可用，立即发送队列中积压的数据
+    await syncQueue.flush(true, profile.id, signal);
+  } else {
+    // 将未发送成功的数据加入发送队列，稍后重试
+    await syncQueue.enqueue(queueEntries, result.message || '同步失败');
+  }
+
+  return {
+    success: result.success,
+    message: result.success ? result.message : `${result.message || '同步失败'}，已加入重试队列`,
+    sentCount: apiDataMap.size
+  };
+}
 
 /**
  * 执行数据同步
+ * 同一时间只允许一个同步执行，已有同步进行时直接返回；网络未连接时不提取数据
  * @param sinceLastExtract 是否只同步上次提取后更新的数据
- * @returns Promise<{success: boolean, message?: string}> 同步结果
+ * @returns Promise<SyncResult> 同步结果
+ */
+export async function syncDomainData(sinceLastExtract: boolean = true): Promise<SyncResult> {
+  if (!navigator.onLine && !activeSync) {
+    return { success: false, message: '网络未连接，暂停同步' };
+  }
+  return runExclusiveSync(signal => performSync(sinceLastExtract, signal));
+}
+
+/**
+ * 发送重试队列中的数据
+ * 与数据同步共用同一个取消控制器，已有同步进行时直接返回，取消同步时同样中止发送
+ * @param force 是否忽略退避时间，发送所有数据项
+ * @returns Promise<SyncResult> 发送结果
  */
-export async function syncDomainData(sinceLastExtract: boolean = true): Promise<{success: boolean, message?: string}> {
+export async function flushSyncQueue(force: boolean = false): Promise<SyncResult> {
+  return runExclusiveSync(signal => syncQueue.flush(force, undefined, signal));
+}
+
+/**
+ * 在同步锁内执行任务，同一时间只允许一个任务执行
+ * @param task 同步任务，接收取消信号
+ * @returns Promise<SyncResult> 任务结果，已有同步进行时返回 busy
+ */
+async function runExclusiveSync(task: (signal: AbortSignal) => Promise<SyncResult>): Promise<SyncResult> {
+  if (activeSync) {
+    return { success: false, message: '已有同步正在进行，请稍后再试', busy: true };
+  }
+
+  const controller = new AbortController();
+  activeSync = controller;
   try {
+    return await task(controller.signal);
+  } finally {
+    activeSync = null;
+  }
+}
+
+/**
+ * 取消正在进行的同步
+ * 正在发送的请求会被中止，未发送成功的数据进入重试队列
+ * @returns 是否有正在进行的同步被取消
+ */
+export function cancelSync(): boolean {
+  if (!activeSync) {
+    return false;
+  }
+  activeSync.abort();
+  return true;
+}
+
+/**
+ * 是否有同步正在进行
+ * @returns 是否正在同步
+ */
+export function isSyncing(): boolean {
+  return activeSync !== null;
+}
+
+/**
+ * 提取数据并同步到每个endpoint
+ * 每个endpoint只接收按对端和域名规则分配给它的数据
+ * @param sinceLastExtract 是否只同步上次提取后更新的数据
+ * @param signal 取消信号
+ * @returns Promise<SyncResult> 同步结果
+ */
+async function performSync(sinceLastExtract: boolean, signal: AbortSignal): Promise<SyncResult> {
+  try {
+    // 隐身实例只在启用隐身窗口同步后同步
+    if (!(await ConfigManager.isContextSyncEnabled())) {
+      return { success: false, message: '未启用隐身窗口同步' };
+    }
+
+    // 私钥锁定时不提取数据，避免变化记录被消耗后无法发送
+    if (await ConfigManager.isPrivateKeyLocked()) {
+      return { success: false, message: '私钥已锁定，请先输入口令解锁' };
+    }
+
+    const profiles = await ConfigManager.getEndpointProfiles();
+    const config = await ConfigManager.getBaseConfig();
+    // 兼容导出使用固定的 uuid，隐身实例不导出，避免覆盖普通窗口导出的数据
+    const exportEnabled = !!config.cookieCloudExport?.enabled && !isIncognitoContext();
+    if (profiles.length === 0 && !exportEnabled) {
+      return { success: false, message: '未配置endpoint地址' };
+    }
+
+    // 增量模式下定期发送全量快照，错过增量数据的对端也能最终一致
+    const deltaEnabled = !!config.enableDeltaSync;
+    const fullExtract = !sinceLastExtract || (deltaEnabled && await ConfigManager.isFullSnapshotDue());
+    const format: PayloadFormat = deltaEnabled && !fullExtract ? 'delta' : 'full';
+
     // 1. 获取域名状态数据
-    const domainDataList = await domainStateManager.extractDomainData(sinceLastExtract);
+    const domainDataList = await domainStateManager.extractDomainData(!fullExtract);
 
-    if (domainDataList.length === 0) {
+    // 原版 CookieCloud 兼容导出：全量同步或导出域名有变化时上传
+    const exportNeeded = exportEnabled && (
+      fullExtract ||
+      await cookieCloudExport.isExportAffected(domainDataList.map(domainData => domainData.domain))
+    );
+
+    if (domainDataList.length === 0 && !exportNeeded) {
       return { success: true, message: '没有需要同步的数据' };
     }
-    
-    // 收集同步报告的数组
-    const syncReports: Omit<SyncReport, 'id'>[] = [];
-    
-    // 2. 加密域名数据，添加回调函数收集同步报告
-    const encryptedDataMap = await encryptionHandler.encryptDomainDataBatch(
-      domainDataList,
-      async (encryptableData: EncryptableDomainData, peerPublicKeys: string[], dataIdentifier: string) => {
-        // 收集同步报告
-        syncReports.push({
-          timestamp: Date.now(),
-          domain: encryptableData.domain,
-          cookieCount: encryptableData.cookies.length,
-          headerCount: Object.keys(encryptableData.headers || {}).length,
-          sharedWithKeys: peerPublicKeys,
-          dataIdentifier, // 记录加密密钥
-          success: true // 先假设成功，如果后续失败会更新
-        });
-        
-        return encryptableData; // 返回原始数据，不做修改
-      }
-    );
+
+    // 发送时间戳在加密前确定，签名中的时间戳与发送给endpoint的一致
     const timestamp = Date.now();
-    
-    if (encryptedDataMap.size === 0) {
+
+    // 2. 分别同步到每个endpoint，某个endpoint失败不影响其他endpoint
+    const results: { profile: EndpointProfile, result: EndpointSyncResult }[] = [];
+    for (const profile of profiles) {
+      let result: EndpointSyncResult;
+      try {
+        result = await syncToEndpoint(profile, domainDataList, timestamp, format, signal);
+      } catch (error) {
+        console.error(`同步到endpoint ${profile.name} 失败:`, error);
+        result = {
+          success: false,
+          message: error instanceof Error ? error.message : '同步过程中发生未知错误',
+          sentCount: 0
+        };
+      }
+      results.push({ profile, result });
+    }
+
+    if (deltaEnabled && fullExtract) {
+      // 发送失败的全量数据已进入重试队列，同样记为已发送快照
+      await ConfigManager.updateBaseConfig({ lastFullSnapshotTime: timestamp });
+    }
+
+    // 3. 导出到原版 CookieCloud 服务端
+    if (exportNeeded && !signal.aborted) {
+      const exportResult = await cookieCloudExport.exportToCookieCloud(signal);
+      results.push({
+        profile: { id: COOKIECLOUD_EXPORT_ENDPOINT_ID, name: 'CookieCloud 兼容导出', url: '', enabled: true },
+        result: { ...exportResult, sentCount: 1 }
+      });
+    }
+
+    if (signal.aborted) {
+      return { success: false, message: '同步已取消，未发送成功的数据已加入重试队列' };
+    }
+
+    const sentCount = results.reduce((sum, { result }) => sum + result.sentCount, 0);
+    const failed = results.filter(({ result }) => !result.success);
+
+    if (sentCount === 0 && failed.length === 0) {
       await ConfigManager.updateBaseConfig({ // 直接成功
         lastSyncTime: timestamp
       });
 
       return { success: true, message: '没有需要发送的加密数据' };
     }
-    
-    // 3. 准备API发送的数据格式
-    const apiDataMap = new Map<string, CookieCloudDataItem>();
-    
-    // 获取当前时间戳，用于数据项的时间标记
-    
-    // 将加密数据转换为API需要的格式
-    encryptedDataMap.forEach((encryptedData, key) => {
-      apiDataMap.set(key, {
-        data: encryptedData,
-        timestamp: timestamp
-      });
-    });
-    
-    // 4. 发送数据到endpoint
-    const result = await cookieCloudApiClient.setData(apiDataMap);
-    
-    // 5. 如果发送成功，更新最后同步时间
-    if (result.success) {
-      // 更新最后同步时间
-      await ConfigManager.updateBaseConfig({
-        lastSyncTime: timestamp
-      });
-      // 6. 保存所有同步报告
-      for (const report of syncReports) {
-        await ReportManager.addReport(report);
-      }
-      
-    } else {
-      // 如果同步失败，更新报告状态
-      for (const report of syncReports) {
-        report.success = false;
-        report.errorMessage = result.message || '同步失败';
-        await ReportManager.addReport(report);
-      }
+
+    // 发送失败的数据已进入重试队列，endpoint或网络恢复后可以重试
+    if (results.length === 1) {
+      return {
+        success: results[0].result.success,
+        message: results[0].result.message,
+        retryable: !results[0].result.success
+      };
     }
-    
+
     return {
-      success: result.success,
-      message: result.message
+      success: failed.length === 0,
+      message: failed.length === 0
+        ? `已同步到 ${results.length} 个endpoint`
+        : failed.map(({ profile, result }) => `${profile.name}: ${result.message}`).join('；'),
+      retryable: failed.length > 0
     };
   } catch (error) {
     console.error('同步域名数据失败:', error);
@@ -116,11 +366,26 @@ export async function shouldSync(): Promise<boolean> {
     return false;
   }
   
-  // 如果没有配置endpoint，则不需要同步
-  if (!config.endpoint) {
+  // 如果没有配置endpoint也未启用兼容导出，则不需要同步
+  if ((await ConfigManager.getEndpointProfiles()).length === 0 && !config.cookieCloudExport?.enabled) {
     return false;
   }
   
+  // 如果网络未连接，则不需要同步
+  if (!navigator.onLine) {
+    return false;
+  }
+
+  // 如果是未启用同步的隐身实例，则不需要同步
+  if (!(await ConfigManager.isContextSyncEnabled())) {
+    return false;
+  }
+
+  // 如果私钥已锁定，则不需要同步
+  if (await ConfigManager.isPrivateKeyLocked()) {
+    return false;
+  }
+
   // 如果没有私钥，则不需要同步
   const privateKey = await ConfigManager.getPrivateKey();
   if (!privateKey) {
@@ -136,6 +401,9 @@ export async function shouldSync(): Promise<boolean> {
 
 const syncService = {
   syncDomainData,
+  flushSyncQueue,
+  cancelSync,
+  isSyncing,
   shouldSync
 };
 
@@ -1,76 +1,206 @@
 /**
  * CookieCloud API 交互工具
+ * 按 endpoint 配置的传输方式发送和拉取数据，发送时按大小和数量限制分批
  */
 
-import ConfigManager from '../service/config';
+import ConfigManager, { DEFAULT_ENDPOINT_ID, EndpointProfile } from '../service/config';
+import { createTransport, CookieCloudDataItem, FetchFunction, KeyRejection } from './transports';
+import { splitIntoChunks } from './payloadChunker';
+import { createTimeoutFetch } from './fetchTimeout';
 
 // 定义数据项接口
-export interface CookieCloudDataItem {
-  data: any;
-  [key: string]: any; // 允许其他字段
+export type { CookieCloudDataItem } from './transports';
+
+// 单个批次的发送结果
+export interface ChunkResult {
+  keys: string[];           // 该批次包含的数据标识
+  success: boolean;         // 请求是否成功
+  message?: string;         // 结果信息
+  rejected?: Record<string, KeyRejection>; // 请求成功但被endpoint拒绝的数据标识
+}
+
+// 发送结果，所有批次都成功且没有被拒绝的数据项时 success 为 true
+export interface SetDataResult {
+  success: boolean;
+  message?: string;
+  chunks: ChunkResult[];    // 各批次的发送结果
+}
+
+// 拒绝原因的说明
+const REJECTION_MESSAGES: Record<string, string> = {
+  quota_exceeded: '超出存储配额',
+  stale_timestamp: '时间戳早于服务端已有数据',
+  signature_rejected: '签名校验未通过',
+};
+
+/**
+ * 生成被拒绝数据项的错误信息
+ * @param rejection 拒绝信息
+ * @returns 错误信息
+ */
+export function formatRejection(rejection: KeyRejection): string {
+  const description = REJECTION_MESSAGES[rejection.reason] || `被服务端拒绝（${rejection.reason}）`;
+  return rejection.message ? `${description}: ${rejection.message}` : description;
+}
+
+/**
+ * 获取某个数据标识的发送结果
+ * 发送前失败（例如未配置endpoint）时没有批次，使用整体结果
+ * @param result 发送结果
+ * @param key 数据标识
+ * @returns {success: boolean, message?: string} 该数据标识的发送结果
+ */
+export function getKeyResult(result: SetDataResult, key: string): {success: boolean, message?: string} {
+  const chunk = result.chunks.find(chunkResult => chunkResult.keys.includes(key));
+  if (!chunk) {
+    return { success: result.success, message: result.message };
+  }
+  const rejection = chunk.rejected?.[key];
+  if (rejection) {
+    return { success: false, message: formatRejection(rejection) };
+  }
+  return { success: chunk.success, message: chunk.message };
 }
 
 /**
  * CookieCloud API 客户端类
  */
 export class CookieCloudApiClient {
+  private readonly fetchFn?: FetchFunction;
+
   /**
-   * 获取配置的endpoint地址
-   * @returns Promise<string | null> endpoint地址，如果未配置则返回null
+   * @param fetchFn fetch 函数（可选，测试时注入）
    */
-  private async getEndpoint(): Promise<string | null> {
-    const config = await ConfigManager.getBaseConfig();
-    return config.endpoint || null;
+  constructor(fetchFn?: FetchFunction) {
+    this.fetchFn = fetchFn;
+  }
+
+  /**
+   * 获取要使用的endpoint配置
+   * @param profile 指定的endpoint配置，未指定时使用默认endpoint
+   * @returns Promise<EndpointProfile | null> endpoint配置，如果未配置则返回null
+   */
+  private async getEndpoint(profile?: EndpointProfile): Promise<EndpointProfile | null> {
+    if (profile) {
+      return profile.url ? profile : null;
+    }
+    return ConfigManager.getEndpointProfile(DEFAULT_ENDPOINT_ID);
+  }
+
+  /**
+   * 创建带超时和取消的 fetch 函数
+   * @param signal 取消信号（可选）
+   * @returns Promise<FetchFunction> fetch 函数
+   */
+  private async createFetch(signal?: AbortSignal): Promise<FetchFunction> {
+    return createTimeoutFetch(await ConfigManager.getRequestTimeout(), signal, this.fetchFn);
   }
 
   /**
    * 向 endpoint 发送数据
+   * 数据按单个请求的大小和数量限制分批发送，某一批失败不影响其他批次
    * @param dataMap 数据映射表，key为字符串，value包含data字段
-   * @returns Promise<{success: boolean, message?: string}> 操作结果
+   * @param profile endpoint配置，未指定时使用默认endpoint
+   * @param signal 取消信号（可选），取消后尚未发送的批次直接失败
+   * @returns Promise<SetDataResult> 操作结果，包含各批次的结果
    */
   async setData(
-    dataMap: Map<string, CookieCloudDataItem>
-  ): Promise<{success: boolean, message?: string}> {
+    dataMap: Map<string, CookieCloudDataItem>,
+    profile?: EndpointProfile,
+    signal?: AbortSignal
+  ): Promise<SetDataResult> {
     try {
       // 获取配置的endpoint地址
-      const endpoint = await this.getEndpoint();
+      const endpoint = await this.getEndpoint(profile);
       
       if (!endpoint) {
         return { 
           success: false, 
-          message: '未配置endpoint地址' 
+          message: '未配置endpoint地址',
+          chunks: []
         };
       }
-      
-      // 构建完整的API URL
-      const apiUrl = `${endpoint}/set`;
-      
-      // 将Map转换为对象
-      const dataObject: Record<string, CookieCloudDataItem> = {};
-      dataMap.forEach((value, key) => {
-        dataObject[key] = value;
-      });
-      
-      // 发送请求
-      const response = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({data: dataObject})
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP错误: ${response.status}`);
+
+      const transport = createTransport(endpoint, await this.createFetch(signal));
+      const chunks = splitIntoChunks(dataMap, await ConfigManager.getUploadLimits());
+      const chunkResults: ChunkResult[] = [];
+
+      for (const chunk of chunks) {
+        const keys = Array.from(chunk.keys());
+        try {
+          const result = await transport.send(chunk);
+          chunkResults.push({ keys, success: result.success, message: result.message, rejected: result.rejected });
+        } catch (error) {
+          console.error(`发送数据到endpoint失败（${keys.length} 项）:`, error);
+          chunkResults.push({
+            keys,
+            success: false,
+            message: error instanceof Error ? error.message : '未知错误'
+          });
+        }
       }
-      
-      const result = await response.json();
-      return { 
-        success: true,
-        message: result.message || '数据发送成功'
+
+      const failed = chunkResults.filter(chunkResult => !chunkResult.success);
+      const rejectedCount = chunkResults.reduce(
+        (sum, chunkResult) => sum + Object.keys(chunkResult.rejected || {}).length, 0
+      );
+      if (failed.length === 0 && rejectedCount > 0) {
+        return {
+          success: false,
+          message: `${rejectedCount} 项数据被服务端拒绝`,
+          chunks: chunkResults
+        };
+      }
+      if (failed.length === 0) {
+        return {
+          success: true,
+          message: chunkResults.length > 1
+            ? `数据发送成功（共 ${chunkResults.length} 批）`
+            : chunkResults[0]?.message || '数据发送成功',
+          chunks: chunkResults
+        };
+      }
+      return {
+        success: false,
+        message: chunkResults.length > 1
+          ? `${chunkResults.length} 批中 ${failed.length} 批发送失败: ${failed[0].message || '未知错误'}`
+          : failed[0].message,
+        chunks: chunkResults
       };
     } catch (error) {
       console.error('发送数据到endpoint失败:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : '未知错误',
+        chunks: []
+      };
+    }
+  }
+
+  /**
+   * 从 endpoint 拉取数据
+   * @param keys 需要拉取的数据标识列表
+   * @param profile endpoint配置，未指定时使用默认endpoint
+   * @returns Promise<{success: boolean, message?: string, data?: Record<string, CookieCloudDataItem>}> 操作结果
+   */
+  async getData(
+    keys: string[],
+    profile?: EndpointProfile
+  ): Promise<{success: boolean, message?: string, data?: Record<string, CookieCloudDataItem>}> {
+    try {
+      // 获取配置的endpoint地址
+      const endpoint = await this.getEndpoint(profile);
+      
+      if (!endpoint) {
+        return { 
+          success: false, 
+          message: '未配置endpoint地址' 
+        };
+      }
+      
+      return await createTransport(endpoint, await this.createFetch()).fetch(keys);
+    } catch (error) {
+      console.error('从endpoint拉取数据失败:', error);
       return {
         success: false,
         message: error instanceof Error ? error.message : '未知错误'
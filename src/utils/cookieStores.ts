@@ -0,0 +1,118 @@
+/**
+ * Cookie存储和分区工具
+ * 按域名规则选择的Cookie存储枚举Cookie，可选包含分区Cookie（CHIPS）
+ */
+
+import { isIncognitoContext } from './incognito';
+
+// 浏览器默认的Cookie存储标识
+export const DEFAULT_COOKIE_STORE_ID = '0';
+// 隐身窗口的Cookie存储标识
+export const INCOGNITO_COOKIE_STORE_ID = '1';
+
+// Cookie存储选择
+export interface CookieStoreSelection {
+  storeIds: string[];           // 包含的Cookie存储标识，为空表示默认存储
+  includePartitioned: boolean;  // 是否包含分区Cookie
+}
+
+/**
+ * 获取选择的Cookie存储标识
+ * @param selection Cookie存储选择
+ * @returns 存储标识列表
+ */
+function getSelectedStoreIds(selection: CookieStoreSelection): string[] {
+  // 隐身实例只采集隐身存储，不读取普通窗口的Cookie
+  if (isIncognitoContext()) {
+    return [INCOGNITO_COOKIE_STORE_ID];
+  }
+  return selection.storeIds.length > 0 ? selection.storeIds : [DEFAULT_COOKIE_STORE_ID];
+}
+
+/**
+ * 计算Cookie在同一域名下的唯一键
+ * 同名同路径的Cookie在不同存储和分区中是不同的Cookie
+ * @param cookie Cookie或删除记录
+ * @returns 唯一键
+ */
+export function getCookieKey(
+  cookie: Pick<chrome.cookies.Cookie, 'name' | 'path' | 'storeId' | 'partitionKey'>
+): string {
+  return `${cookie.storeId}|${cookie.partitionKey?.topLevelSite || ''}|${cookie.name}|${cookie.path}`;
+}
+
+/**
+ * 判断Cookie是否属于选择的存储和分区
+ * @param cookie Cookie或删除记录
+ * @param selection Cookie存储选择
+ * @returns 是否选择
+ */
+export function isCookieInSelection(
+  cookie: Pick<chrome.cookies.Cookie, 'storeId' | 'partitionKey'>,
+  selection: CookieStoreSelection
+): boolean {
+  if (cookie.partitionKey && !selection.includePartitioned) {
+    return false;
+  }
+  return getSelectedStoreIds(selection).includes(cookie.storeId);
+}
+
+/**
+ * 获取域名在选择的存储和分区中的所有Cookie
+ * @param domain 域名
+ * @param selection Cookie存储选择
+ * @returns Promise<chrome.cookies.Cookie[]> Cookie列表
+ */
+export async function getDomainCookies(
+  domain: string,
+  selection: CookieStoreSelection
+): Promise<chrome.cookies.Cookie[]> {
+  const cookies = new Map<string, chrome.cookies.Cookie>();
+
+  for (const storeId of getSelectedStoreIds(selection)) {
+    try {
+      // partitionKey 为空对象时同时返回所有分区的Cookie和未分区的Cookie
+      const storeCookies = await chrome.cookies.getAll(
+        selection.includePartitioned ? { domain, storeId, partitionKey: {} } : { domain, storeId }
+      );
+      storeCookies.forEach(cookie => cookies.set(getCookieKey(cookie), cookie));
+    } catch (error) {
+      // 存储不存在（例如没有打开隐身窗口）时跳过
+      console.warn(`读取Cookie存储 ${storeId} 失败:`, error);
+    }
+  }
+
+  return Array.from(cookies.values());
+}
+
+/**
+ * 获取所有Cookie存储和分区中出现的Cookie域
+ * @returns Promise<Set<string>> Cookie域集合
+ */
+export async function getAllCookieDomains(): Promise<Set<string>> {
+  const domains = new Set<string>();
+  let storeIds = [isIncognitoContext() ? INCOGNITO_COOKIE_STORE_ID : DEFAULT_COOKIE_STORE_ID];
+  try {
+    if (!isIncognitoContext()) {
+      const stores = await chrome.cookies.getAllCookieStores();
+      storeIds = Array.from(new Set([DEFAULT_COOKIE_STORE_ID, ...stores.map(store => store.id)]));
+    }
+  } catch (error) {
+    console.warn('获取Cookie存储列表失败:', error);
+  }
+
+  for (const storeId of storeIds) {
+    try {
+      const cookies = await chrome.cookies.getAll({ storeId, partitionKey: {} });
+      cookies.forEach(cookie => {
+        if (cookie.domain) {
+          domains.add(cookie.domain);
+        }
+      });
+    } catch (error) {
+      console.warn(`读取Cookie存储 ${storeId} 失败:`, error);
+    }
+  }
+
+  return domains;
+}
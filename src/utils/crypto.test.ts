@@ -0,0 +1,144 @@
+/**
+ * @jest-environment node
+ */
+
+import { webcrypto } from 'crypto';
+import * as elliptic from 'elliptic';
+import * as CryptoJS from 'crypto-js';
+import {
+  encryptAndSignForMultipleRecipients,
+  generateKeyPair,
+  sign,
+  verify,
+  verifyAndDecryptEnvelope,
+  verifyAndDecryptForMultipleRecipients,
+} from './crypto';
+
+// jest 27 的测试环境没有全局 WebCrypto，使用 Node 的实现
+if (!globalThis.crypto?.subtle) {
+  Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+}
+
+const ec = new elliptic.ec('secp256k1');
+
+const sender = generateKeyPair();
+const recipient = generateKeyPair();
+const stranger = generateKeyPair();
+
+const context = { identifier: 'peer/example.com', sequence: 7, previousSequence: 6, timestamp: 1700000000000 };
+
+/**
+ * 按旧版本扩展的格式生成 v1 信封
+ * @param data 要加密的数据
+ * @returns v1 信封（JSON字符串）
+ */
+function createV1Envelope(data: string): string {
+  const ephemeral = ec.genKeyPair();
+  const ephPubKey = ephemeral.getPublic(true, 'hex');
+  const sharedSecretKey = CryptoJS.enc.Hex.parse(
+    ephemeral.derive(ec.keyFromPublic(recipient.publicKey, 'hex').getPublic()).toString(16).padStart(64, '0')
+  );
+  const dataKey = CryptoJS.enc.Hex.parse('00112233445566778899aabbccddeeff00112233445566778899aabbccddeeff');
+
+  const encryptedKey = CryptoJS.AES.encrypt(dataKey, sharedSecretKey, {
+    iv: CryptoJS.lib.WordArray.create(sharedSecretKey.words.slice(0, 4)),
+    mode: CryptoJS.mode.CBC,
+    padding: CryptoJS.pad.NoPadding,
+  }).toString();
+  const encryptedData = CryptoJS.AES.encrypt(data, dataKey, {
+    iv: CryptoJS.lib.WordArray.create(dataKey.words.slice(0, 4)),
+    mode: CryptoJS.mode.CBC,
+    padding: CryptoJS.pad.Pkcs7,
+  }).toString();
+
+  return JSON.stringify({
+    ephPubKey,
+    data: encryptedData,
+    shareKeys: { [CryptoJS.MD5(ephPubKey + recipient.publicKey).toString()]: encryptedKey },
+    signature: sign(sender.privateKey, JSON.stringify({ ephPubKey, data: encryptedData })),
+  });
+}
+
+describe('sign / verify', () => {
+  it('签名可以用对应公钥验证', () => {
+    const signature = sign(sender.privateKey, 'payload');
+    expect(verify(sender.publicKey, 'payload', signature)).toBe(true);
+  });
+
+  it('数据或公钥不一致时验证失败', () => {
+    const signature = sign(sender.privateKey, 'payload');
+    expect(verify(sender.publicKey, 'payload!', signature)).toBe(false);
+    expect(verify(stranger.publicKey, 'payload', signature)).toBe(false);
+  });
+});
+
+describe('verifyAndDecryptEnvelope', () => {
+  it('加密后可以解密，并返回签名的发送上下文', async () => {
+    const encrypted = await encryptAndSignForMultipleRecipients([recipient.publicKey], sender.privateKey, '{"a":1}', context);
+
+    const result = await verifyAndDecryptEnvelope(recipient.privateKey, sender.publicKey, encrypted, context.identifier);
+
+    expect(result.version).toBe(3);
+    expect(result.data).toBe('{"a":1}');
+    expect(result.context).toEqual({ ...context, sender: sender.publicKey });
+    await expect(verifyAndDecryptForMultipleRecipients(recipient.privateKey, sender.publicKey, encrypted)).resolves.toBe('{"a":1}');
+  });
+
+  it('数据标识不一致时拒绝', async () => {
+    const encrypted = await encryptAndSignForMultipleRecipients([recipient.publicKey], sender.privateKey, 'data', context);
+
+    await expect(
+      verifyAndDecryptEnvelope(recipient.privateKey, sender.publicKey, encrypted, 'peer/other.com')
+    ).rejects.toThrow('数据标识不匹配');
+  });
+
+  it('发送者不一致时拒绝', async () => {
+    const encrypted = await encryptAndSignForMultipleRecipients([recipient.publicKey], sender.privateKey, 'data', context);
+
+    await expect(
+      verifyAndDecryptEnvelope(recipient.privateKey, stranger.publicKey, encrypted, context.identifier)
+    ).rejects.toThrow('签名验证失败');
+  });
+
+  it('发送上下文被篡改时拒绝', async () => {
+    const encrypted = await encryptAndSignForMultipleRecipients([recipient.publicKey], sender.privateKey, 'data', context);
+    const envelope = JSON.parse(encrypted);
+    envelope.context.sequence = 100;
+
+    await expect(
+      verifyAndDecryptEnvelope(recipient.privateKey, sender.publicKey, JSON.stringify(envelope), context.identifier)
+    ).rejects.toThrow('签名验证失败');
+  });
+
+  it('不在接收者列表中时拒绝', async () => {
+    const encrypted = await encryptAndSignForMultipleRecipients([recipient.publicKey], sender.privateKey, 'data', context);
+
+    await expect(
+      verifyAndDecryptEnvelope(stranger.privateKey, sender.publicKey, encrypted, context.identifier)
+    ).rejects.toThrow('当前接收者不在允许解密的列表中');
+  });
+
+  it('默认可以解密 v1 信封，对端设置拒绝后不接受', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const encrypted = createV1Envelope('legacy data');
+
+    const result = await verifyAndDecryptEnvelope(recipient.privateKey, sender.publicKey, encrypted, context.identifier);
+    expect(result).toEqual({ version: 1, data: 'legacy data', context: undefined });
+    expect(warn).toHaveBeenCalled();
+
+    await expect(
+      verifyAndDecryptEnvelope(recipient.privateKey, sender.publicKey, encrypted, context.identifier, true)
+    ).rejects.toThrow('旧版加密数据');
+    warn.mockRestore();
+  });
+
+  it('拒绝不支持的版本', async () => {
+    const encrypted = await encryptAndSignForMultipleRecipients([recipient.publicKey], sender.privateKey, 'data', context);
+    const envelope = JSON.parse(encrypted);
+    envelope.version = 2;
+
+    await expect(
+      verifyAndDecryptEnvelope(recipient.privateKey, sender.publicKey, JSON.stringify(envelope))
+    ).rejects.toThrow('不支持的加密数据版本');
+  });
+});
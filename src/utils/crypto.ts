@@ -5,10 +5,55 @@
 
 import * as elliptic from 'elliptic';
 import * as CryptoJS from 'crypto-js';
+import { base64ToBytes, bytesToBase64, hexToBytes } from './encoding';
 
 // 初始化 secp256k1 曲线
 const ec = new elliptic.ec('secp256k1');
 
+// 多接收者加密信封的当前版本
+// v1：AES-CBC，IV取自密钥本身，无版本字段（签名不绑定发送者和数据标识，默认仍可解密，可按对端关闭）
+// v2：未发布的中间版本，不再支持
+// v3：AES-GCM，随机IV，共享密钥经 HKDF 派生后再包装数据密钥；签名覆盖发送者公钥、数据标识、序列号和时间戳，防止重放和挪用
+export const ENVELOPE_VERSION = 3;
+
+// v3 信封通过 HKDF 派生包装密钥时使用的上下文信息
+const HKDF_INFO_PREFIX = 'cookie-cloud/v3/share-key';
+// AES-GCM 初始化向量长度（字节）
+const GCM_IV_LENGTH = 12;
+
+/**
+ * 信封上下文（v3 起纳入签名）
+ */
+export interface EnvelopeContext {
+  sender: string;                       // 发送者公钥
+  identifier: string;                   // 数据标识
+  sequence: number;                     // 发送序列号（同一发送者严格递增）
+  previousSequence?: number;            // 同一endpoint同一数据标识上一次发送的序列号（首次发送时没有）
+  timestamp: number;                    // 发送时间戳
+}
+
+/**
+ * 多接收者加密信封
+ */
+export interface MultiRecipientEnvelope {
+  version?: number;                     // 信封版本，v1 没有该字段
+  context?: EnvelopeContext;            // 发送上下文（v3）
+  ephPubKey: string;                    // 临时公钥
+  iv?: string;                          // 数据加密的初始化向量（Base64，v3）
+  data: string;                         // 加密后的数据
+  shareKeys: Record<string, string>;    // 接收者密钥哈希 -> 加密后的数据密钥
+  signature: string;                    // 发送者签名
+}
+
+/**
+ * 验证并解密后的信封内容
+ */
+export interface DecryptedEnvelope {
+  version: number;                      // 信封版本
+  data: string;                         // 解密后的原始数据
+  context?: EnvelopeContext;            // 已验证的发送上下文（v3 起才有）
+}
+
 /**
  * 密钥对接口
  */
@@ -200,135 +245,167 @@ export function verify(publicKey: string, data: string, signature: string): bool
 
 
 /**
- * 使用多个公钥加密数据并用私钥签名
+ * 计算临时私钥与对端公钥的 ECDH 共享密钥
+ * @param keyPair 己方密钥对
+ * @param publicKey 对端公钥（十六进制字符串）
+ * @returns 32字节共享密钥
+ */
+function deriveSharedSecret(keyPair: elliptic.ec.KeyPair, publicKey: string): Uint8Array {
+  const sharedSecret = keyPair.derive(ec.keyFromPublic(publicKey, 'hex').getPublic());
+  return hexToBytes(sharedSecret.toString(16).padStart(64, '0'));
+}
+
+/**
+ * 通过 HKDF 从共享密钥派生包装数据密钥用的 AES-GCM 密钥
+ * @param sharedSecret ECDH 共享密钥
+ * @param ephPubKey 临时公钥（作为盐）
+ * @param recipientPublicKey 接收者公钥（作为上下文信息）
+ * @returns Promise<CryptoKey> AES-GCM 密钥
+ */
+async function deriveWrappingKey(sharedSecret: Uint8Array, ephPubKey: string, recipientPublicKey: string): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: hexToBytes(ephPubKey),
+      info: new TextEncoder().encode(`${HKDF_INFO_PREFIX}:${recipientPublicKey}`),
+    },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * 使用 AES-GCM 加密，输出随机IV和密文
+ * @param key AES-GCM 密钥
+ * @param plaintext 明文
+ * @returns Promise<{iv: Uint8Array, ciphertext: Uint8Array}>
+ */
+async function aesGcmEncrypt(key: CryptoKey, plaintext: Uint8Array): Promise<{ iv: Uint8Array, ciphertext: Uint8Array }> {
+  const iv = crypto.getRandomValues(new Uint8Array(GCM_IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+  return { iv, ciphertext: new Uint8Array(ciphertext) };
+}
+
+/**
+ * 计算接收者在 shareKeys 中的索引，避免暴露公钥信息
+ * @param version 信封版本
+ * @param ephPubKey 临时公钥
+ * @param publicKey 接收者公钥
+ * @returns 索引哈希
+ */
+function calculateShareKeyHash(version: number, ephPubKey: string, publicKey: string): string {
+  return version === 1
+    ? CryptoJS.MD5(ephPubKey + publicKey).toString()
+    : CryptoJS.SHA256(ephPubKey + publicKey).toString();
+}
+
+/**
+ * 生成信封中需要签名的数据
+ * @param envelope 不含签名的信封
+ * @returns 待签名字符串
+ */
+function getEnvelopeSigningData(envelope: Omit<MultiRecipientEnvelope, 'signature'>): string {
+  if (!envelope.version) {
+    // v1 只签名临时公钥和密文
+    return JSON.stringify({
+      ephPubKey: envelope.ephPubKey,
+      data: envelope.data,
+    });
+  }
+  return JSON.stringify({
+    version: envelope.version,
+    context: envelope.context,
+    ephPubKey: envelope.ephPubKey,
+    iv: envelope.iv,
+    data: envelope.data,
+    shareKeys: envelope.shareKeys,
+  });
+}
+
+/**
+ * 使用多个公钥加密数据并用私钥签名（v3 信封）
  * @param recipientPublicKeys 多个接收者的公钥数组
  * @param senderPrivateKey 发送者的私钥（用于签名）
  * @param data 要加密的数据
- * @returns 加密并签名后的数据（JSON字符串）
+ * @param context 发送上下文（数据标识、序列号和时间戳），发送者公钥由私钥派生
+ * @returns Promise<string> 加密并签名后的数据（JSON字符串）
  */
-export function encryptAndSignForMultipleRecipients(
-  recipientPublicKeys: string[], 
-  senderPrivateKey: string, 
-  data: string
-): string {
+export async function encryptAndSignForMultipleRecipients(
+  recipientPublicKeys: string[],
+  senderPrivateKey: string,
+  data: string,
+  context: Omit<EnvelopeContext, 'sender'>
+): Promise<string> {
   // 为当前加密会话生成临时密钥对
   const ephemeral = ec.genKeyPair();
-  
-  // 获取临时公钥
   const ephPubKey = ephemeral.getPublic(true, 'hex');
-  
-  // 生成随机AES密钥
-  const aesKey = CryptoJS.lib.WordArray.random(32); // 256位密钥
-  
-  // 使用AES密钥加密数据（只加密一次）
-  const encrypted = CryptoJS.AES.encrypt(data, aesKey, {
-    iv: CryptoJS.lib.WordArray.create(aesKey.words.slice(0, 4)) ,
-    mode: CryptoJS.mode.CBC,
-    padding: CryptoJS.pad.Pkcs7,
-  }).toString();
-  
-  // 为每个接收者加密AES密钥，使用MD5哈希作为键
+
+  // 生成随机数据密钥，使用随机IV加密数据（只加密一次）
+  const rawDataKey = crypto.getRandomValues(new Uint8Array(32));
+  const dataKey = await crypto.subtle.importKey('raw', rawDataKey, 'AES-GCM', false, ['encrypt']);
+  const encrypted = await aesGcmEncrypt(dataKey, new TextEncoder().encode(data));
+
+  // 为每个接收者包装数据密钥，格式为 IV + 密文
   const shareKeys: Record<string, string> = {};
-  
-  recipientPublicKeys.forEach(publicKey => {
-    // 解析接收者的公钥
-    const recipientPublic = ec.keyFromPublic(publicKey, 'hex');
-    
-    // 计算共享密钥
-    const sharedSecret = ephemeral.derive(recipientPublic.getPublic());
-    
-    // 将共享密钥转换为十六进制字符串
-    const sharedSecretKey = CryptoJS.enc.Hex.parse(sharedSecret.toString(16).padStart(64, '0'));
-    
-    // 使用共享密钥加密AES密钥
-    const encryptedKey = CryptoJS.AES.encrypt(
-      aesKey,
-      sharedSecretKey,
-      {
-        iv: CryptoJS.lib.WordArray.create(sharedSecretKey.words.slice(0, 4)),
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.NoPadding,
-      }
-    ).toString();
-    
-    // 使用MD5哈希作为键，避免暴露公钥信息
-    const keyHash = CryptoJS.MD5(ephPubKey + publicKey).toString();
-    
-    // 存储加密后的密钥，以哈希值为索引
-    shareKeys[keyHash] = encryptedKey;
-  });
-  
-  // 创建要签名的数据
-  const dataToSign = JSON.stringify({
-    ephPubKey,
-    data: encrypted,
-  });
-  
-  // 使用发送者的私钥签名数据
-  const signature = sign(senderPrivateKey, dataToSign);
-  
-  // 组合临时公钥、加密数据、加密的密钥和签名
-  return JSON.stringify({
+  for (const publicKey of recipientPublicKeys) {
+    const sharedSecret = deriveSharedSecret(ephemeral, publicKey);
+    const wrappingKey = await deriveWrappingKey(sharedSecret, ephPubKey, publicKey);
+    const wrapped = await aesGcmEncrypt(wrappingKey, rawDataKey);
+
+    const packed = new Uint8Array(wrapped.iv.length + wrapped.ciphertext.length);
+    packed.set(wrapped.iv);
+    packed.set(wrapped.ciphertext, wrapped.iv.length);
+    shareKeys[calculateShareKeyHash(ENVELOPE_VERSION, ephPubKey, publicKey)] = bytesToBase64(packed);
+  }
+
+  const envelope: Omit<MultiRecipientEnvelope, 'signature'> = {
+    version: ENVELOPE_VERSION,
+    context: {
+      sender: getKeyPairFromPrivateKey(senderPrivateKey).publicKey,
+      identifier: context.identifier,
+      sequence: context.sequence,
+      previousSequence: context.previousSequence,
+      timestamp: context.timestamp,
+    },
     ephPubKey,
-    data: encrypted,
+    iv: bytesToBase64(encrypted.iv),
+    data: bytesToBase64(encrypted.ciphertext),
     shareKeys,
+  };
+
+  // 签名覆盖版本、发送上下文、IV、密文和所有包装后的密钥
+  const signature = sign(senderPrivateKey, getEnvelopeSigningData(envelope));
+
+  return JSON.stringify({
+    ...envelope,
     signature
   });
 }
 
 /**
- * 验证签名并解密多接收者加密数据
- * @param recipientPrivateKey 接收者的私钥（用于解密）
- * @param senderPublicKey 发送者的公钥（用于验证签名）
- * @param encryptedData 加密的数据（由encryptAndSignForMultipleRecipients函数生成的JSON字符串）
- * @returns 解密后的原始数据，如果签名无效则抛出错误
+ * 解密 v1 信封（AES-CBC）
+ * @param recipientKeyPair 接收者密钥对
+ * @param envelope 信封
+ * @param encryptedKey 当前接收者的加密数据密钥
+ * @returns 解密后的原始数据
  */
-export function verifyAndDecryptForMultipleRecipients(
-  recipientPrivateKey: string,
-  senderPublicKey: string,
-  encryptedData: string
+function decryptEnvelopeV1(
+  recipientKeyPair: elliptic.ec.KeyPair,
+  envelope: MultiRecipientEnvelope,
+  encryptedKey: string
 ): string {
-  // 从私钥派生公钥
-  const recipientPublicKey = getKeyPairFromPrivateKey(recipientPrivateKey).publicKey;
-  
-  // 解析加密数据
-  const parsedData = JSON.parse(encryptedData);
-  const { ephPubKey, data, shareKeys, signature } = parsedData;
-  
-  // 验证签名
-  const dataToVerify = JSON.stringify({
-    ephPubKey,
-    data
-  });
-  
-  const isValid = verify(senderPublicKey, dataToVerify, signature);
-  if (!isValid) {
-    throw new Error('签名验证失败，数据可能被篡改或不是由声称的发送者发送');
-  }
-  
-  // 计算接收者的密钥哈希
-  const keyHash = CryptoJS.MD5(ephPubKey + recipientPublicKey).toString();
-  
-  // 检查当前接收者的哈希是否在加密密钥列表中
-  if (!shareKeys[keyHash]) {
-    throw new Error('当前接收者不在允许解密的列表中');
-  }
-  
-  // 从私钥创建密钥对
-  const recipientKeyPair = ec.keyFromPrivate(recipientPrivateKey, 'hex');
-  
-  // 解析发送者的临时公钥
-  const ephemeralPublic = ec.keyFromPublic(ephPubKey, 'hex');
-  
   // 计算共享密钥
-  const sharedSecret = recipientKeyPair.derive(ephemeralPublic.getPublic());
-  
-  // 将共享密钥转换为十六进制字符串
-  const sharedSecretKey = CryptoJS.enc.Hex.parse(sharedSecret.toString(16).padStart(64, '0'));
-  
+  const sharedSecretKey = CryptoJS.enc.Hex.parse(
+    recipientKeyPair.derive(ec.keyFromPublic(envelope.ephPubKey, 'hex').getPublic()).toString(16).padStart(64, '0')
+  );
+
   // 解密AES密钥
   const decryptedKey = CryptoJS.AES.decrypt(
-    shareKeys[keyHash],
+    encryptedKey,
     sharedSecretKey,
     {
       iv: CryptoJS.lib.WordArray.create(sharedSecretKey.words.slice(0, 4)),
@@ -336,10 +413,10 @@ export function verifyAndDecryptForMultipleRecipients(
       padding: CryptoJS.pad.NoPadding
     }
   );
-  
+
   // 使用解密后的AES密钥解密数据
   const decrypted = CryptoJS.AES.decrypt(
-    data,
+    envelope.data,
     decryptedKey,
     {
       iv: CryptoJS.lib.WordArray.create(decryptedKey.words.slice(0, 4)),
@@ -347,7 +424,137 @@ export function verifyAndDecryptForMultipleRecipients(
       padding: CryptoJS.pad.Pkcs7
     }
   );
-  
-  // 将解密后的数据转换为字符串
+
   return decrypted.toString(CryptoJS.enc.Utf8);
 }
+
+/**
+ * 解密 v3 信封（HKDF + AES-GCM）
+ * @param recipientKeyPair 接收者密钥对
+ * @param recipientPublicKey 接收者公钥
+ * @param envelope 信封
+ * @param encryptedKey 当前接收者的包装数据密钥
+ * @returns Promise<string> 解密后的原始数据
+ */
+async function decryptEnvelopeV3(
+  recipientKeyPair: elliptic.ec.KeyPair,
+  recipientPublicKey: string,
+  envelope: MultiRecipientEnvelope,
+  encryptedKey: string
+): Promise<string> {
+  if (!envelope.iv) {
+    throw new Error('加密数据缺少初始化向量');
+  }
+
+  try {
+    // 解包数据密钥
+    const sharedSecret = deriveSharedSecret(recipientKeyPair, envelope.ephPubKey);
+    const wrappingKey = await deriveWrappingKey(sharedSecret, envelope.ephPubKey, recipientPublicKey);
+    const packed = base64ToBytes(encryptedKey);
+    const rawDataKey = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: packed.slice(0, GCM_IV_LENGTH) },
+      wrappingKey,
+      packed.slice(GCM_IV_LENGTH)
+    );
+
+    // 解密数据
+    const dataKey = await crypto.subtle.importKey('raw', rawDataKey, 'AES-GCM', false, ['decrypt']);
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(envelope.iv) },
+      dataKey,
+      base64ToBytes(envelope.data)
+    );
+    return new TextDecoder().decode(decrypted);
+  } catch (error) {
+    throw new Error('解密失败，数据可能已损坏');
+  }
+}
+
+/**
+ * 验证签名并解密多接收者加密数据，同时返回已验证的发送上下文
+ * 支持 v3 信封和 v1 信封（无版本字段）；v1 信封的签名不绑定发送者和数据标识，解密时输出警告
+ * @param recipientPrivateKey 接收者的私钥（用于解密）
+ * @param senderPublicKey 发送者的公钥（用于验证签名）
+ * @param encryptedData 加密的数据（由encryptAndSignForMultipleRecipients函数生成的JSON字符串）
+ * @param expectedIdentifier 期望的数据标识，v3 信封中签名的数据标识不一致时抛出错误
+ * @param rejectLegacy 是否拒绝 v1 信封
+ * @returns Promise<DecryptedEnvelope> 解密结果，如果签名无效则抛出错误
+ */
+export async function verifyAndDecryptEnvelope(
+  recipientPrivateKey: string,
+  senderPublicKey: string,
+  encryptedData: string,
+  expectedIdentifier?: string,
+  rejectLegacy: boolean = false
+): Promise<DecryptedEnvelope> {
+  // 从私钥派生公钥
+  const recipientPublicKey = getKeyPairFromPrivateKey(recipientPrivateKey).publicKey;
+
+  // 解析加密数据
+  const envelope = JSON.parse(encryptedData) as MultiRecipientEnvelope;
+  const version = envelope.version || 1;
+  if (version === 1) {
+    if (rejectLegacy) {
+      throw new Error('旧版加密数据未绑定发送者和数据标识，已设置为不接受');
+    }
+    console.warn('收到旧版加密数据，签名未绑定发送者和数据标识');
+  } else if (version !== ENVELOPE_VERSION) {
+    throw new Error(`不支持的加密数据版本: ${version}`);
+  }
+
+  // 验证签名
+  const isValid = verify(senderPublicKey, getEnvelopeSigningData(envelope), envelope.signature);
+  if (!isValid) {
+    throw new Error('签名验证失败，数据可能被篡改或不是由声称的发送者发送');
+  }
+
+  // v3 校验签名中的发送者和数据标识，防止数据被挪到其他标识下
+  if (version === ENVELOPE_VERSION) {
+    const { context } = envelope;
+    if (!context) {
+      throw new Error('加密数据缺少发送上下文');
+    }
+    if (context.sender !== senderPublicKey) {
+      throw new Error('发送者公钥不匹配');
+    }
+    if (expectedIdentifier !== undefined && context.identifier !== expectedIdentifier) {
+      throw new Error('数据标识不匹配，数据可能被挪用');
+    }
+  }
+
+  // 检查当前接收者的哈希是否在加密密钥列表中
+  const keyHash = calculateShareKeyHash(version, envelope.ephPubKey, recipientPublicKey);
+  const encryptedKey = envelope.shareKeys?.[keyHash];
+  if (!encryptedKey) {
+    throw new Error('当前接收者不在允许解密的列表中');
+  }
+
+  // 从私钥创建密钥对
+  const recipientKeyPair = ec.keyFromPrivate(recipientPrivateKey, 'hex');
+
+  const data = version === 1
+    ? decryptEnvelopeV1(recipientKeyPair, envelope, encryptedKey)
+    : await decryptEnvelopeV3(recipientKeyPair, recipientPublicKey, envelope, encryptedKey);
+
+  return {
+    version,
+    data,
+    context: envelope.context,
+  };
+}
+
+/**
+ * 验证签名并解密多接收者加密数据
+ * @param recipientPrivateKey 接收者的私钥（用于解密）
+ * @param senderPublicKey 发送者的公钥（用于验证签名）
+ * @param encryptedData 加密的数据（由encryptAndSignForMultipleRecipients函数生成的JSON字符串）
+ * @returns Promise<string> 解密后的原始数据，如果签名无效则抛出错误
+ */
+export async function verifyAndDecryptForMultipleRecipients(
+  recipientPrivateKey: string,
+  senderPublicKey: string,
+  encryptedData: string
+): Promise<string> {
+  const result = await verifyAndDecryptEnvelope(recipientPrivateKey, senderPublicKey, encryptedData);
+  return result.data;
+}
@@ -0,0 +1,20 @@
+import { getRegistrableDomain } from './domainMatcher';
+
+describe('getRegistrableDomain', () => {
+  it('按公共后缀列表计算注册域', () => {
+    expect(getRegistrableDomain('login.example.com')).toBe('example.com');
+    expect(getRegistrableDomain('.login.example.co.uk')).toBe('example.co.uk');
+    expect(getRegistrableDomain('a.b.example.com.cn')).toBe('example.com.cn');
+    expect(getRegistrableDomain('www.example.gov.au')).toBe('example.gov.au');
+  });
+
+  it('私有后缀下的不同站点不分为一组', () => {
+    expect(getRegistrableDomain('alice.github.io')).toBe('alice.github.io');
+    expect(getRegistrableDomain('bob.github.io')).toBe('bob.github.io');
+  });
+
+  it('没有注册域时返回域名本身', () => {
+    expect(getRegistrableDomain('localhost')).toBe('localhost');
+    expect(getRegistrableDomain('192.168.1.1')).toBe('192.168.1.1');
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * 域名规则匹配工具
+ * 支持以下规则写法：
+ * - example.com       精确匹配（同时匹配Cookie域 .example.com）
+ * - .example.com      匹配 example.com 及其所有子域名
+ * - *.example.com     只匹配 example.com 的子域名
+ * 另外规则可以开启注册域（eTLD+1）分组，应用到同一注册域下的所有域名
+ */
+
+import { getDomain } from 'tldts';
+
+// 各类规则的优先级加成，标签数相同时精确匹配优先
+const EXACT_BONUS = 5;
+const WILDCARD_BONUS = 3;
+const SUFFIX_BONUS = 2;
+// 注册域分组的优先级最低
+const SITE_GROUP_SPECIFICITY = 1;
+
+/**
+ * 规范化域名：去除首尾空白和开头的点，转为小写
+ * @param domain 域名或Cookie域
+ * @returns 规范化后的域名
+ */
+export function normalizeDomain(domain: string): string {
+  const trimmed = domain.trim().toLowerCase();
+  return trimmed.startsWith('.') ? trimmed.slice(1) : trimmed;
+}
+
+/**
+ * 判断Cookie是否属于指定域名的数据
+ * Cookie域与域名一致时属于该域名；仅限主机的Cookie也可以是该域名下的子域名
+ * @param cookie Cookie或删除记录（删除记录没有 hostOnly，按Cookie域是否以点开头判断）
+ * @param domain 数据所属域名
+ * @returns 是否属于该域名
+ */
+export function isCookieWithinDomain(cookie: { domain: string, hostOnly?: boolean }, domain: string): boolean {
+  const cookieDomain = normalizeDomain(cookie.domain || '');
+  const target = normalizeDomain(domain);
+  if (!cookieDomain || !target) {
+    return false;
+  }
+  if (cookieDomain === target) {
+    return true;
+  }
+  const hostOnly = cookie.hostOnly ?? !cookie.domain.trim().startsWith('.');
+  return hostOnly && cookieDomain.endsWith('.' + target);
+}
+
+/**
+ * 判断规则是否为通配规则（不能直接作为具体域名使用）
+ * @param pattern 域名规则
+ * @returns 是否包含通配符
+ */
+export function isWildcardPattern(pattern: string): boolean {
+  return pattern.includes('*');
+}
+
+/**
+ * 计算域名的注册域（eTLD+1）
+ * @param domain 域名
+ * @returns 注册域，例如 login.example.co.uk -> example.co.uk
+ */
+export function getRegistrableDomain(domain: string): string {
+  const hostname = normalizeDomain(domain);
+  // 使用公共后缀列表（包含 github.io 等私有后缀，同一后缀下的不同站点不分为一组）
+  // IP地址、localhost 等没有注册域时按域名本身分组
+  return getDomain(hostname, { allowPrivateDomains: true }) || hostname;
+}
+
+/**
+ * 计算域名规则与域名的匹配程度
+ * @param pattern 域名规则
+ * @param domain 要匹配的域名（可以是带点的Cookie域）
+ * @param matchRegistrableDomain 是否启用注册域分组
+ * @returns 匹配程度，越大越具体；不匹配时返回 -1
+ */
+export function getDomainMatchSpecificity(
+  pattern: string,
+  domain: string,
+  matchRegistrableDomain: boolean = false
+): number {
+  const rawPattern = pattern.trim().toLowerCase();
+  const target = normalizeDomain(domain);
+  if (!rawPattern || !target) {
+    return -1;
+  }
+
+  if (rawPattern.startsWith('*.')) {
+    // 通配规则：只匹配子域名
+    const base = rawPattern.slice(2);
+    if (target.endsWith('.' + base)) {
+      return base.split('.').length * 10 + WILDCARD_BONUS;
+    }
+  } else if (rawPattern.startsWith('.')) {
+    // 后缀规则：匹配自身及子域名
+    const base = rawPattern.slice(1);
+    if (target === base || target.endsWith('.' + base)) {
+      return base.split('.').length * 10 + SUFFIX_BONUS;
+    }
+  } else if (target === rawPattern) {
+    // 精确规则
+    return rawPattern.split('.').length * 10 + EXACT_BONUS;
+  }
+
+  if (matchRegistrableDomain) {
+    const base = normalizeDomain(rawPattern.replace(/^\*\./, ''));
+    if (getRegistrableDomain(base) === getRegistrableDomain(target)) {
+      return SITE_GROUP_SPECIFICITY;
+    }
+  }
+
+  return -1;
+}
@@ -0,0 +1,56 @@
+/**
+ * 编码转换工具
+ * 用于 WebCrypto 的二进制数据与字符串之间的转换
+ */
+
+/**
+ * 字节数组转Base64
+ * @param bytes 字节数组
+ * @returns Base64字符串
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+/**
+ * Base64转字节数组
+ * @param base64 Base64字符串
+ * @returns 字节数组
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * 十六进制字符串转字节数组
+ * @param hex 十六进制字符串
+ * @returns 字节数组
+ */
+export function hexToBytes(hex: string): Uint8Array {
+  const normalized = hex.length % 2 === 0 ? hex : '0' + hex;
+  const bytes = new Uint8Array(normalized.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(normalized.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * 字节数组转十六进制字符串
+ * @param bytes 字节数组
+ * @returns 十六进制字符串
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
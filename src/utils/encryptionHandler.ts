@@ -4,19 +4,35 @@
  */
 
 import { encryptAndSignForMultipleRecipients } from './crypto';
-import ConfigManager from '../service/config';
-import { DomainData } from '../service/domainState';
+import { isIncludedByPolicy } from './filterPolicy';
+import { getDomainCookies, isCookieInSelection } from './cookieStores';
+import { getContextStoragePrefix } from './incognito';
+import { filterPeersForEndpoint, isDomainRoutedToEndpoint } from './endpointRouting';
+import ConfigManager, { DomainSyncConfig, EndpointProfile } from '../service/config';
+import { CookieChange, CookieTombstone, DomainData, HeaderSnapshot } from '../service/domainState';
 import * as CryptoJS from 'crypto-js';
 
+// 内容未变化时重新发送的间隔（毫秒），远小于接收方的数据有效期（30天），避免endpoint上只剩过期数据
+const SYNCED_HASH_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// 数据格式：full 为全量数据，delta 为自上次提取以来的变化
+export type PayloadFormat = 'full' | 'delta';
+
 // 定义要加密的域名数据结构
 export interface EncryptableDomainData {
     domain: string;                                 // 域名
-    cookies: chrome.cookies.Cookie[]; // Cookie是否有更新
-    headers: Record<string, string>;                // 选择性包含的请求头
+    cookies: chrome.cookies.Cookie[];               // 全量数据中的所有Cookie（增量数据为空）
+    headers: Record<string, string>;                // 选择性包含的请求头（增量数据只包含变化的请求头）
+    format?: PayloadFormat;                         // 数据格式，缺省为全量
+    added?: chrome.cookies.Cookie[];                // 增量数据：新增的Cookie
+    changed?: chrome.cookies.Cookie[];              // 增量数据：修改的Cookie
+    removed?: CookieTombstone[];                    // 保留期内删除的Cookie（全量和增量数据都会携带）
+    headerSnapshots?: HeaderSnapshot[];             // 请求头快照（设置快照规则时代替合并的请求头，增量数据只包含有变化的快照）
 }
 
 /**
  * 计算密钥标识
+ * 隐身实例的标识带有隐身前缀，不会与普通实例的数据互相覆盖或被对方接收
  * @param publicKey 公钥
  * @param domain 域名
  * @param name 名称
@@ -24,18 +40,149 @@ export interface EncryptableDomainData {
  */
 function calculateKeyIdentifier(publicKey: string, domain: string, name: string): string {
     // 使用 CryptoJS 计算 SHA256 哈希
-    const data = `${publicKey}:${domain}:${name}`;
+    const data = `${getContextStoragePrefix()}${publicKey}:${domain}:${name}`;
     const hash = CryptoJS.SHA256(data).toString();
     return hash;
 }
 
+/**
+ * 计算域名数据的内容哈希
+ * Cookie 按存储、分区、域、路径和名称排序，请求头按名称排序，保证相同内容得到相同哈希；
+ * 请求头快照只按名称、请求方法和请求头计算，来源URL和采集时间变化不会重新发送；
+ * 过期时间按天取整，服务端重复设置同值Cookie时不会因为过期时间顺延而重新发送
+ * @param data 可加密的域名数据
+ * @param peerPublicKeys 接收数据的对端公钥列表，对端变化时需要重新发送
+ * @returns SHA256哈希值
+ */
+export function calculateContentHash(data: EncryptableDomainData, peerPublicKeys: string[]): string {
+    const normalizeCookies = (cookies: chrome.cookies.Cookie[] = []) => cookies
+        .map(cookie => [
+            cookie.storeId,
+            cookie.partitionKey?.topLevelSite || null,
+            cookie.domain,
+            cookie.path,
+            cookie.name,
+            cookie.value,
+            cookie.secure,
+            cookie.httpOnly,
+            cookie.sameSite,
+            cookie.hostOnly,
+            cookie.session,
+            cookie.expirationDate ? Math.floor(cookie.expirationDate / 86400) : null,
+        ])
+        .sort((a, b) => JSON.stringify(a.slice(0, 5)).localeCompare(JSON.stringify(b.slice(0, 5))));
+    const headers = Object.keys(data.headers)
+        .sort()
+        .map(name => [name, data.headers[name]]);
+    const removed = (data.removed || [])
+        .map(cookie => [cookie.storeId, cookie.partitionKey?.topLevelSite || null, cookie.domain, cookie.path, cookie.name])
+        .sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b)));
+    const headerSnapshots = (data.headerSnapshots || [])
+        .map(snapshot => [
+            snapshot.name,
+            snapshot.method,
+            Object.keys(snapshot.headers).sort().map(name => [name, snapshot.headers[name]]),
+        ])
+        .sort((a, b) => String(a[0]).localeCompare(String(b[0])));
+    const peers = [...peerPublicKeys].sort();
+
+    return CryptoJS.SHA256(JSON.stringify({
+        format: data.format || 'full',
+        cookies: normalizeCookies(data.cookies),
+        added: normalizeCookies(data.added),
+        changed: normalizeCookies(data.changed),
+        removed,
+        headers,
+        headerSnapshots,
+        peers,
+    })).toString();
+}
+
+/**
+ * 筛选需要发送的Cookie删除记录
+ * @param domainData 域名状态管理器返回的单条数据
+ * @param syncConfig 域名同步配置
+ * @returns CookieTombstone[] 域名完全匹配、属于选择的存储和分区且允许同步的删除记录
+ */
+function selectTombstones(domainData: DomainData, syncConfig: DomainSyncConfig): CookieTombstone[] {
+    return (domainData.tombstones || []).filter(tombstone =>
+        tombstone.domain === domainData.domain &&
+        isCookieInSelection(tombstone, syncConfig.cookieStores) &&
+        isIncludedByPolicy(tombstone.name, syncConfig.cookiePolicy));
+}
+
+/**
+ * 筛选需要发送的请求头快照
+ * @param domainData 域名状态管理器返回的单条数据
+ * @param syncConfig 域名同步配置
+ * @returns HeaderSnapshot[] 仍在快照规则中的快照，请求头按过滤策略筛选，筛选后为空的快照不发送
+ */
+function selectHeaderSnapshots(domainData: DomainData, syncConfig: DomainSyncConfig): HeaderSnapshot[] {
+    const ruleNames = new Set(syncConfig.headerSnapshotRules.map(rule => rule.name));
+    return (domainData.headerSnapshots || [])
+        .filter(snapshot => ruleNames.has(snapshot.name))
+        .map(snapshot => ({
+            ...snapshot,
+            headers: Object.fromEntries(Object.entries(snapshot.headers)
+                .filter(([headerKey]) => isIncludedByPolicy(headerKey, syncConfig.headerPolicy))),
+        }))
+        .filter(snapshot => Object.keys(snapshot.headers).length > 0);
+}
+
+/**
+ * 根据Cookie变化构建增量数据
+ * @param domainData 域名状态管理器返回的单条数据
+ * @param syncConfig 域名同步配置，未启用Cookie同步时为null
+ * @param headers 变化且允许同步的请求头
+ * @param headerSnapshots 有变化的请求头快照
+ * @returns 增量数据，没有需要发送的变化时返回null
+ */
+function buildDeltaData(
+    domainData: DomainData,
+    syncConfig: DomainSyncConfig | null,
+    headers: Record<string, string>,
+    headerSnapshots: HeaderSnapshot[]
+): EncryptableDomainData | null {
+    const changes: CookieChange[] = syncConfig
+        ? domainData.cookieChanges.filter(change =>
+            change.cookie.domain === domainData.domain &&
+            isCookieInSelection(change.cookie, syncConfig.cookieStores) &&
+            isIncludedByPolicy(change.cookie.name, syncConfig.cookiePolicy))
+        : [];
+
+    const added = changes.filter(change => change.type === 'added').map(change => change.cookie);
+    const changed = changes.filter(change => change.type === 'changed').map(change => change.cookie);
+    const removed = syncConfig ? selectTombstones(domainData, syncConfig) : [];
+
+    if (changes.length === 0 && Object.keys(headers).length === 0 && headerSnapshots.length === 0) {
+        return null;
+    }
+
+    const deltaData: EncryptableDomainData = {
+        domain: domainData.domain,
+        format: 'delta',
+        cookies: [],
+        headers,
+        added,
+        changed,
+        removed,
+    };
+    if (headerSnapshots.length > 0) {
+        deltaData.headerSnapshots = headerSnapshots;
+    }
+    return deltaData;
+}
+
 /**
  * 从域名数据中提取需要加密的信息
+ * 增量格式下只包含变化的Cookie和请求头；Cookie有更新但没有变化记录时（例如旧版本保存的状态）退回全量格式
  * @param domainData 域名状态管理器返回的单条数据
+ * @param format 期望的数据格式
  * @returns 处理后可加密的域名数据
  */
 export async function prepareDomainDataForEncryption(
-    domainData: DomainData
+    domainData: DomainData,
+    format: PayloadFormat = 'full'
 ): Promise<EncryptableDomainData | null> {
     // 获取域名配置
     const domainConfig = await ConfigManager.getDomainSyncConfig(domainData.domain);
@@ -55,16 +202,19 @@ export async function prepareDomainDataForEncryption(
     // 检查是否有需要上报的header
     let hasReportableHeaders = false;
 
-    if (enableHeaderSync && domainData.headers) {
-        // 获取包含和排除的请求头列表
-        const includedHeaders = domainConfig?.includedHeaders || [];
+    // 设置了快照规则时按快照同步请求头，不同路径的请求头不会互相覆盖，也不同步合并的请求头
+    const useSnapshots = domainConfig.headerSnapshotRules.length > 0;
+    let selectedSnapshots: HeaderSnapshot[] = [];
 
+    if (enableHeaderSync && useSnapshots) {
+        selectedSnapshots = selectHeaderSnapshots(domainData, domainConfig);
+        hasReportableHeaders = selectedSnapshots.some(snapshot =>
+            (domainData.updatedSnapshotNames || []).includes(snapshot.name));
+    } else if (enableHeaderSync && domainData.headers) {
         // 处理所有请求头
         for (const [headerKey, headerValue] of Object.entries(domainData.headers)) {
-            const lowerHeaderKey = headerKey.toLowerCase();
-            
-            // 如果包含列表为空或者headerKey在包含列表中，则添加
-            if (includedHeaders.length === 0 || includedHeaders.some(h => h.toLowerCase() === lowerHeaderKey)) {
+            // 按过滤策略决定是否包含该请求头
+            if (isIncludedByPolicy(headerKey, domainConfig.headerPolicy)) {
                 selectedHeaders[headerKey] = headerValue;
                 
                 // 如果是更新的请求头，标记为有可上报的请求头
@@ -80,28 +230,54 @@ export async function prepareDomainDataForEncryption(
         return null;
     }
 
+    const hasCookieChanges = (domainData.cookieChanges || []).length > 0;
+    if (format === 'delta' && (!domainData.cookieUpdated || !enableCookieSync || hasCookieChanges)) {
+        const changedHeaders: Record<string, string> = {};
+        for (const headerKey of domainData.updatedHeaderKeys || []) {
+            if (selectedHeaders[headerKey] !== undefined) {
+                changedHeaders[headerKey] = selectedHeaders[headerKey];
+            }
+        }
+        const changedSnapshots = selectedSnapshots.filter(snapshot =>
+            (domainData.updatedSnapshotNames || []).includes(snapshot.name));
+        return buildDeltaData(domainData, enableCookieSync ? domainConfig : null, changedHeaders, changedSnapshots);
+    }
+
     let cookies: chrome.cookies.Cookie[] = []
     if (enableCookieSync && domainData.cookieUpdated) {
         try {
-            // 使用chrome API获取域名的所有cookie
-            const allCookies = await chrome.cookies.getAll({ domain: domainData.domain });
+            // 获取域名在选择的Cookie存储和分区中的所有cookie
+            const allCookies = await getDomainCookies(domainData.domain, domainConfig.cookieStores);
 
             // 过滤出域名完全匹配的cookie
             cookies = allCookies.filter(cookie => {
                 return cookie.domain === domainData.domain;
             });
 
+            // 按过滤策略筛选Cookie名称
+            cookies = cookies.filter(cookie => isIncludedByPolicy(cookie.name, domainConfig.cookiePolicy));
+
         } catch (error) {
             console.error(`获取域名 ${domainData.domain} 的cookie失败:`, error);
         }
     }
 
-    // 构建可加密的域名数据
-    return {
+    // 构建可加密的域名数据，携带删除记录，接收方据此删除已不存在的Cookie
+    const encryptableData: EncryptableDomainData = {
         domain: domainData.domain,
         cookies,
         headers: selectedHeaders,
     };
+    if (selectedSnapshots.length > 0) {
+        encryptableData.headerSnapshots = selectedSnapshots;
+    }
+    const removed = enableCookieSync && domainData.cookieUpdated
+        ? selectTombstones(domainData, domainConfig)
+        : [];
+    if (removed.length > 0) {
+        encryptableData.removed = removed;
+    }
+    return encryptableData;
 }
 
 /**
@@ -123,12 +299,21 @@ export async function getEnabledPeerPublicKeys(domain?: string): Promise<string[
 /**
  * 加密多个域名数据
  * @param domainDataList 域名数据列表
- * @param preProcessCallback 加密前的数据预处理回调函数（可选）
+ * @param preProcessCallback 加密前的数据预处理回调函数（可选），会收到数据的内容哈希，发送成功后由调用方记录
+ * @param timestamp 发送时间戳，会写入签名，需要与发送给endpoint的时间戳一致
+ * @param profile 目标endpoint配置（可选），指定时只加密该endpoint负责的域名和对端，
+ *                并跳过内容与最近一天内发送成功时相同的域名
+ * @param format 数据格式，默认为全量
+ * @param queuedIdentifiers 发送队列中还有未送达数据的数据标识，增量格式下这些数据改为发送全量
  * @returns 加密后的数据映射表 (域名 -> 加密数据)
  */
 export async function encryptDomainDataBatch(
     domainDataList: DomainData[],
-    preProcessCallback?: (data: EncryptableDomainData, peerPublicKeys: string[], encryptionKey: string) => Promise<EncryptableDomainData> | EncryptableDomainData
+    preProcessCallback?: (data: EncryptableDomainData, peerPublicKeys: string[], encryptionKey: string, contentHash: string) => Promise<EncryptableDomainData> | EncryptableDomainData,
+    timestamp: number = Date.now(),
+    profile?: EndpointProfile,
+    format: PayloadFormat = 'full',
+    queuedIdentifiers: Set<string> = new Set()
 ): Promise<Map<string, string>> {
     // 获取私钥
     const privateKey = await ConfigManager.getPrivateKey();
@@ -142,12 +327,26 @@ export async function encryptDomainDataBatch(
         throw new Error('无法获取本地公钥');
     }
     const encryptedDataMap = new Map<string, string>();
+    const syncedHashes = profile ? await ConfigManager.getSyncedContentHashes(profile) : {};
 
     // 处理每个域名数据
     for (const domainData of domainDataList) {
         try {
-            // 获取该域名的对端公钥
-            const peerPublicKeys = await getEnabledPeerPublicKeys(domainData.domain);
+            // 检查同步策略是否允许同步该域名
+            if (!(await ConfigManager.isDomainSyncAllowed(domainData.domain))) {
+                continue;
+            }
+
+            // 检查该域名是否发送到目标endpoint
+            if (profile && !isDomainRoutedToEndpoint(profile, domainData.domain)) {
+                continue;
+            }
+
+            // 获取该域名的对端公钥，只保留目标endpoint负责的对端
+            const domainPeerPublicKeys = await getEnabledPeerPublicKeys(domainData.domain);
+            const peerPublicKeys = profile
+                ? filterPeersForEndpoint(profile, domainPeerPublicKeys)
+                : domainPeerPublicKeys;
             // 使用calculateKeyIdentifier生成唯一键
             const encryptionKey = calculateKeyIdentifier(myPublicKey, domainData.domain, serviceName);
 
@@ -156,11 +355,26 @@ export async function encryptDomainDataBatch(
                 continue;
             }
 
-            // 准备加密数据
-            let encryptableData = await prepareDomainDataForEncryption(domainData);
+            // 准备加密数据；新数据会替换发送队列中未送达的数据，队列中是增量数据时只发送之后的变化会丢失其中的变化，改为发送全量
+            const replacesQueued = format === 'delta' && queuedIdentifiers.has(encryptionKey);
+            let encryptableData = replacesQueued
+                ? await prepareDomainDataForEncryption({ ...domainData, cookieUpdated: true }, 'full')
+                : await prepareDomainDataForEncryption(domainData, format);
+            if (!encryptableData) {
+                continue;
+            }
+
+            // 内容与最近一天内发送成功的数据相同，不重复发送；超过一天后重新发送，刷新数据的签名时间戳
+            const contentHash = calculateContentHash(encryptableData, peerPublicKeys);
+            const synced = syncedHashes[encryptionKey];
+            if (typeof synced === 'object' && synced.hash === contentHash &&
+                timestamp - synced.syncedTime < SYNCED_HASH_MAX_AGE_MS) {
+                continue;
+            }
+
             // 如果提供了预处理回调，则应用预处理，并传递加密密钥
-            if (encryptableData && preProcessCallback) {
-                encryptableData = await Promise.resolve(preProcessCallback(encryptableData, peerPublicKeys, encryptionKey));
+            if (preProcessCallback) {
+                encryptableData = await Promise.resolve(preProcessCallback(encryptableData, peerPublicKeys, encryptionKey, contentHash));
             }
 
             if (!encryptableData) {
@@ -172,11 +386,19 @@ export async function encryptDomainDataBatch(
             // 将数据转为JSON字符串
             const jsonData = JSON.stringify(restData);
 
-            // 使用多接收者加密
-            const encryptedData = encryptAndSignForMultipleRecipients(
+            // 使用多接收者加密，签名覆盖数据标识、序列号、上一次发送的序列号和时间戳
+            const sequences = profile
+                ? await ConfigManager.nextSendSequenceFor(profile.id, encryptionKey)
+                : { sequence: await ConfigManager.nextSendSequence() };
+            const encryptedData = await encryptAndSignForMultipleRecipients(
                 peerPublicKeys,
                 privateKey,
-                jsonData
+                jsonData,
+                {
+                    identifier: encryptionKey,
+                    ...sequences,
+                    timestamp
+                }
             );
 
             // 存储加密结果，使用生成的唯一键而不是域名
@@ -194,6 +416,7 @@ const encryptionHandler = {
     getEnabledPeerPublicKeys,
     encryptDomainDataBatch,
     calculateKeyIdentifier,
+    calculateContentHash,
 };
 
 export default encryptionHandler;
\ No newline at end of file
@@ -0,0 +1,74 @@
+/**
+ * endpoint 认证工具
+ * 根据认证配置生成请求头：bearer 令牌、basic 认证、HMAC 签名和自定义请求头
+ */
+
+import * as CryptoJS from 'crypto-js';
+import { EndpointAuth } from '../service/config';
+import { bytesToBase64 } from './encoding';
+
+// HMAC 签名使用的请求头
+export const HMAC_TIMESTAMP_HEADER = 'X-CookieCloud-Timestamp';
+export const HMAC_SIGNATURE_HEADER = 'X-CookieCloud-Signature';
+
+/**
+ * 计算请求的 HMAC 签名
+ * 签名内容为 `${timestamp}\n${method}\n${path}\n${body}`，服务端按相同规则计算并校验时间戳
+ * @param secret HMAC 密钥
+ * @param timestamp 请求时间戳（毫秒）
+ * @param method 请求方法
+ * @param url 请求地址
+ * @param body 请求体
+ * @returns 十六进制签名
+ */
+export function calculateRequestSignature(
+  secret: string,
+  timestamp: number,
+  method: string,
+  url: string,
+  body: string
+): string {
+  const path = new URL(url).pathname;
+  const message = `${timestamp}\n${method.toUpperCase()}\n${path}\n${body}`;
+  return CryptoJS.HmacSHA256(message, secret).toString(CryptoJS.enc.Hex);
+}
+
+/**
+ * 根据认证配置生成请求头
+ * @param auth 认证配置
+ * @param method 请求方法
+ * @param url 请求地址
+ * @param body 请求体
+ * @returns 需要附加到请求上的请求头
+ */
+export function buildAuthHeaders(
+  auth: EndpointAuth | undefined,
+  method: string,
+  url: string,
+  body: string
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (!auth) {
+    return headers;
+  }
+
+  // 自定义请求头先写入，认证请求头不允许被覆盖
+  for (const header of auth.customHeaders || []) {
+    if (header?.name && header.name.trim()) {
+      headers[header.name.trim()] = header.value || '';
+    }
+  }
+
+  if (auth.type === 'bearer' && auth.token) {
+    headers['Authorization'] = `Bearer ${auth.token}`;
+  } else if (auth.type === 'basic' && auth.username) {
+    const credentials = new TextEncoder().encode(`${auth.username}:${auth.password || ''}`);
+    headers['Authorization'] = `Basic ${bytesToBase64(credentials)}`;
+  } else if (auth.type === 'hmac' && auth.hmacSecret) {
+    const timestamp = Date.now();
+    headers[HMAC_TIMESTAMP_HEADER] = String(timestamp);
+    headers[HMAC_SIGNATURE_HEADER] = calculateRequestSignature(auth.hmacSecret, timestamp, method, url, body);
+  }
+
+  return headers;
+}
@@ -0,0 +1,71 @@
+import { BaseConfig, DEFAULT_ENDPOINT_ID, resolveEndpointProfiles } from '../service/config';
+import { filterPeersForEndpoint, isDomainRoutedToEndpoint } from './endpointRouting';
+
+const createConfig = (overrides: Partial<BaseConfig> = {}): BaseConfig => ({
+  serviceName: 'browser',
+  endpoint: 'https://default.example.net/sync',
+  endpointPeerKeys: ['peer-a'],
+  endpointDomains: ['example.com'],
+  endpoints: [
+    {
+      id: 'endpoint-b',
+      name: 'B',
+      url: 'https://b.example.net/sync',
+      enabled: true,
+      peerKeys: ['peer-b'],
+      domains: ['*.contractor.com'],
+    },
+  ],
+  ...overrides,
+} as BaseConfig);
+
+/**
+ * 模拟同步时的分流：返回每个 endpoint 收到的 对端/域名 组合
+ */
+const route = (config: BaseConfig, domains: string[], peers: string[]) => {
+  const routed: Record<string, string[]> = {};
+  for (const profile of resolveEndpointProfiles(config)) {
+    routed[profile.id] = domains
+      .filter(domain => isDomainRoutedToEndpoint(profile, domain))
+      .flatMap(domain => filterPeersForEndpoint(profile, peers).map(peer => `${peer}/${domain}`));
+  }
+  return routed;
+};
+
+describe('resolveEndpointProfiles', () => {
+  it('默认 endpoint 带上自己的对端和域名规则', () => {
+    const [profile] = resolveEndpointProfiles(createConfig());
+    expect(profile.id).toBe(DEFAULT_ENDPOINT_ID);
+    expect(profile.peerKeys).toEqual(['peer-a']);
+    expect(profile.domains).toEqual(['example.com']);
+  });
+
+  it('未填写地址时不使用默认 endpoint', () => {
+    const profiles = resolveEndpointProfiles(createConfig({ endpoint: '' }));
+    expect(profiles.map(profile => profile.id)).toEqual(['endpoint-b']);
+  });
+
+  it('跳过停用或没有地址的额外 endpoint', () => {
+    const config = createConfig({
+      endpoints: [
+        { id: 'off', name: 'off', url: 'https://off.example.net', enabled: false },
+        { id: 'empty', name: 'empty', url: '', enabled: true },
+      ],
+    });
+    expect(resolveEndpointProfiles(config).map(profile => profile.id)).toEqual([DEFAULT_ENDPOINT_ID]);
+  });
+});
+
+describe('endpoint 分流', () => {
+  it('分流到 endpoint B 的数据不会发送到默认 endpoint', () => {
+    const routed = route(createConfig(), ['example.com', 'app.contractor.com'], ['peer-a', 'peer-b']);
+    expect(routed[DEFAULT_ENDPOINT_ID]).toEqual(['peer-a/example.com']);
+    expect(routed['endpoint-b']).toEqual(['peer-b/app.contractor.com']);
+  });
+
+  it('默认 endpoint 不限定对端和域名时仍接收所有数据', () => {
+    const config = createConfig({ endpointPeerKeys: [], endpointDomains: undefined });
+    const routed = route(config, ['example.com', 'app.contractor.com'], ['peer-a', 'peer-b']);
+    expect(routed[DEFAULT_ENDPOINT_ID]).toHaveLength(4);
+  });
+});
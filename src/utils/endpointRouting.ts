@@ -0,0 +1,34 @@
+/**
+ * endpoint 分流工具
+ * 根据 endpoint 配置中的对端和域名规则，决定哪些数据发送到哪个 endpoint
+ */
+
+import { EndpointProfile } from '../service/config';
+import { getDomainMatchSpecificity } from './domainMatcher';
+
+/**
+ * 判断域名的数据是否发送到该 endpoint
+ * @param profile endpoint 配置
+ * @param domain 域名
+ * @returns 没有配置域名规则或匹配任一规则时返回true
+ */
+export function isDomainRoutedToEndpoint(profile: EndpointProfile, domain: string): boolean {
+  if (!profile.domains || profile.domains.length === 0) {
+    return true;
+  }
+  return profile.domains.some(pattern => getDomainMatchSpecificity(pattern, domain) >= 0);
+}
+
+/**
+ * 筛选该 endpoint 负责的对端公钥
+ * @param profile endpoint 配置
+ * @param publicKeys 对端公钥列表
+ * @returns 没有配置对端时返回全部公钥，否则返回交集
+ */
+export function filterPeersForEndpoint(profile: EndpointProfile, publicKeys: string[]): string[] {
+  if (!profile.peerKeys || profile.peerKeys.length === 0) {
+    return publicKeys;
+  }
+  const allowed = new Set(profile.peerKeys);
+  return publicKeys.filter(publicKey => allowed.has(publicKey));
+}
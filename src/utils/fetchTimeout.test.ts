@@ -0,0 +1,71 @@
+import { createTimeoutFetch, SYNC_CANCELLED_MESSAGE } from './fetchTimeout';
+import { FetchFunction, TransportResponse } from './transports';
+
+/**
+ * 创建返回指定响应体的 fetch
+ * @param body 响应体
+ * @returns FetchFunction
+ */
+function createBodyFetch(body: string): FetchFunction {
+  return async () => ({ ok: true, status: 200, text: async () => body } as TransportResponse);
+}
+
+/**
+ * 创建响应头立即返回、响应体在请求中止前一直读取不完的 fetch
+ * @returns FetchFunction
+ */
+function createStalledBodyFetch(): FetchFunction {
+  return async (_input, init) => ({
+    ok: true,
+    status: 200,
+    text: () => new Promise<string>((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+    })
+  } as TransportResponse);
+}
+
+describe('createTimeoutFetch', () => {
+  it('返回的响应可以多次读取响应体', async () => {
+    const response = await createTimeoutFetch(1000, undefined, createBodyFetch('{"ok":1}'))('https://example.com');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ ok: 1 });
+    expect(await response.text()).toBe('{"ok":1}');
+  });
+
+  it('不修改原始响应', async () => {
+    const original = { ok: true, status: 200, text: async () => 'body' } as TransportResponse;
+    const readText = original.text;
+
+    const response = await createTimeoutFetch(1000, undefined, async () => original)('https://example.com');
+
+    expect(response).not.toBe(original);
+    expect(original.text).toBe(readText);
+  });
+
+  it('读取响应体超时时中止请求', async () => {
+    const timeoutFetch = createTimeoutFetch(20, undefined, createStalledBodyFetch());
+
+    await expect(timeoutFetch('https://example.com')).rejects.toThrow('请求超时');
+  });
+
+  it('读取响应体时可以取消', async () => {
+    const controller = new AbortController();
+    const timeoutFetch = createTimeoutFetch(10000, controller.signal, createStalledBodyFetch());
+
+    const pending = timeoutFetch('https://example.com');
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(pending).rejects.toThrow(SYNC_CANCELLED_MESSAGE);
+  });
+
+  it('已取消时不发送请求', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const baseFetch = jest.fn(createBodyFetch(''));
+
+    await expect(createTimeoutFetch(1000, controller.signal, baseFetch)('https://example.com'))
+      .rejects.toThrow(SYNC_CANCELLED_MESSAGE);
+    expect(baseFetch).not.toHaveBeenCalled();
+  });
+});
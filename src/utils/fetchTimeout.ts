@@ -0,0 +1,74 @@
+/**
+ * 带超时和取消的 fetch
+ * 每个请求使用独立的 AbortController，超时或外部取消信号触发时中止请求（包括读取响应体）
+ */
+
+import { FetchFunction, TransportResponse } from './transports';
+
+// 同步被取消时的错误信息
+export const SYNC_CANCELLED_MESSAGE = '同步已取消';
+
+// 默认使用全局 fetch（需要包一层，直接保存引用调用时会丢失 this）
+const defaultFetch: FetchFunction = (input, init) => fetch(input, init);
+
+/**
+ * 读取完整的响应体，返回保存了响应体内容的响应，不修改原始响应
+ * @param response 原始响应
+ * @returns Promise<TransportResponse> 已读取响应体的响应，text() 和 json() 可以多次调用
+ */
+async function readResponseBody(response: TransportResponse): Promise<TransportResponse> {
+  const text = await response.text();
+  return {
+    ok: response.ok,
+    status: response.status,
+    headers: response.headers,
+    text: async () => text,
+    json: async () => JSON.parse(text),
+  };
+}
+
+/**
+ * 创建带超时和取消的 fetch 函数
+ * 返回的响应已读取完响应体（只能通过 text() 和 json() 获取），超时时间覆盖从发送请求到读取完响应体的整个过程
+ * @param timeoutMs 单个请求的超时时间（毫秒）
+ * @param signal 外部取消信号（可选）
+ * @param baseFetch 实际发送请求的 fetch 函数（可选，测试时注入）
+ * @returns FetchFunction 包装后的 fetch 函数
+ */
+export function createTimeoutFetch(
+  timeoutMs: number,
+  signal?: AbortSignal,
+  baseFetch: FetchFunction = defaultFetch
+): FetchFunction {
+  return async (input, init = {}) => {
+    if (signal?.aborted) {
+      throw new Error(SYNC_CANCELLED_MESSAGE);
+    }
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const handleAbort = () => controller.abort();
+    signal?.addEventListener('abort', handleAbort);
+
+    try {
+      const response = await baseFetch(input, { ...init, signal: controller.signal });
+      // 响应头返回后继续计时，读取完响应体才算请求完成，否则读取响应体时无法超时和取消
+      return await readResponseBody(response);
+    } catch (error) {
+      if (timedOut) {
+        throw new Error(`请求超时（${Math.round(timeoutMs / 1000)} 秒）`);
+      }
+      if (signal?.aborted) {
+        throw new Error(SYNC_CANCELLED_MESSAGE);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', handleAbort);
+    }
+  };
+}
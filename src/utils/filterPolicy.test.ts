@@ -0,0 +1,72 @@
+import {
+  createFilterPolicy,
+  isIncludedByPolicy,
+  resolveDomainRuleDecision,
+  resolveFilterDecision
+} from './filterPolicy';
+
+describe('resolveFilterDecision', () => {
+  it('没有任何规则时全部同步', () => {
+    const policy = createFilterPolicy({}, {}, false);
+    expect(resolveFilterDecision('session', policy)).toBe('include');
+  });
+
+  it('域名排除优先于域名包含', () => {
+    const policy = createFilterPolicy({}, { included: ['session*'], excluded: ['session_tmp'] }, false);
+    expect(resolveFilterDecision('session_tmp', policy)).toBe('exclude');
+    expect(resolveFilterDecision('session_id', policy)).toBe('include');
+  });
+
+  it('域名包含优先于基础排除', () => {
+    const policy = createFilterPolicy({ excluded: ['_ga*'] }, { included: ['_ga_keep'] }, false);
+    expect(resolveFilterDecision('_ga_keep', policy)).toBe('include');
+    expect(resolveFilterDecision('_ga_other', policy)).toBe('exclude');
+  });
+
+  it('基础排除优先于基础包含', () => {
+    const policy = createFilterPolicy({ included: ['x-*'], excluded: ['x-debug'] }, {}, true);
+    expect(resolveFilterDecision('X-Debug', policy)).toBe('exclude');
+    expect(resolveFilterDecision('X-Trace', policy)).toBe('include');
+  });
+
+  it('域名排除优先于基础包含', () => {
+    const policy = createFilterPolicy({ included: ['token'] }, { excluded: ['tok*'] }, false);
+    expect(resolveFilterDecision('token', policy)).toBe('exclude');
+  });
+
+  it('基础包含列表不为空时，未被包含的名称不同步', () => {
+    const policy = createFilterPolicy({ included: ['sid'] }, {}, false);
+    expect(resolveFilterDecision('sid', policy)).toBe('include');
+    expect(resolveFilterDecision('other', policy)).toBe('exclude');
+  });
+
+  it('域名包含列表不为空时，未被包含的名称不同步', () => {
+    const policy = createFilterPolicy({}, { included: ['auth_?'] }, false);
+    expect(resolveFilterDecision('auth_1', policy)).toBe('include');
+    expect(resolveFilterDecision('auth_12', policy)).toBe('exclude');
+    expect(resolveFilterDecision('other', policy)).toBe('exclude');
+  });
+
+  it('只有排除列表时，未被排除的名称同步', () => {
+    const policy = createFilterPolicy({ excluded: ['_ga*'] }, { excluded: ['tmp?'] }, false);
+    expect(resolveFilterDecision('_gat', policy)).toBe('exclude');
+    expect(resolveFilterDecision('tmp1', policy)).toBe('exclude');
+    expect(resolveFilterDecision('session', policy)).toBe('include');
+  });
+
+  it('按策略决定是否忽略大小写', () => {
+    const headerPolicy = createFilterPolicy({ excluded: ['Authorization'] }, {}, true);
+    const cookiePolicy = createFilterPolicy({ excluded: ['SID'] }, {}, false);
+    expect(isIncludedByPolicy('authorization', headerPolicy)).toBe(false);
+    expect(isIncludedByPolicy('sid', cookiePolicy)).toBe(true);
+  });
+});
+
+describe('resolveDomainRuleDecision', () => {
+  it('只按域名规则解析，没有匹配时返回null', () => {
+    const policy = createFilterPolicy({ excluded: ['_ga*'] }, { included: ['sess*'], excluded: ['sess_tmp'] }, false);
+    expect(resolveDomainRuleDecision('session', policy)).toBe('include');
+    expect(resolveDomainRuleDecision('sess_tmp', policy)).toBe('exclude');
+    expect(resolveDomainRuleDecision('_ga', policy)).toBeNull();
+  });
+});
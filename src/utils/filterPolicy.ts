@@ -0,0 +1,105 @@
+/**
+ * 过滤策略解析工具
+ * 根据基础配置和域名配置的包含/排除列表，决定某个请求头或Cookie是否同步
+ * Service Worker 和弹出窗口共用同一套解析逻辑，保证界面展示与实际同步一致
+ */
+
+import { matchAnyGlob } from './patternMatcher';
+
+// 一组包含/排除规则
+export interface FilterRules {
+  included: string[];       // 包含列表（支持通配符）
+  excluded: string[];       // 排除列表（支持通配符）
+}
+
+// 过滤策略
+export interface FilterPolicy {
+  base: FilterRules;        // 基础配置中的规则
+  domain: FilterRules;      // 域名配置中的规则
+  ignoreCase: boolean;      // 匹配时是否忽略大小写（请求头忽略，Cookie不忽略）
+}
+
+// 解析结果
+export type FilterDecision = 'include' | 'exclude';
+
+/**
+ * 创建过滤策略
+ * @param base 基础配置中的包含/排除列表
+ * @param domain 域名配置中的包含/排除列表
+ * @param ignoreCase 匹配时是否忽略大小写
+ * @returns 过滤策略
+ */
+export function createFilterPolicy(
+  base: Partial<FilterRules>,
+  domain: Partial<FilterRules>,
+  ignoreCase: boolean
+): FilterPolicy {
+  return {
+    base: {
+      included: base.included || [],
+      excluded: base.excluded || [],
+    },
+    domain: {
+      included: domain.included || [],
+      excluded: domain.excluded || [],
+    },
+    ignoreCase,
+  };
+}
+
+/**
+ * 解析名称是否应该同步
+ * 优先级从高到低：
+ * 1. 域名排除列表
+ * 2. 域名包含列表
+ * 3. 基础排除列表
+ * 4. 基础包含列表
+ * 5. 任一包含列表不为空时，未被包含的名称不同步；否则同步
+ * @param name 请求头名称或Cookie名称
+ * @param policy 过滤策略
+ * @returns 解析结果
+ */
+export function resolveFilterDecision(name: string, policy: FilterPolicy): FilterDecision {
+  const { base, domain, ignoreCase } = policy;
+
+  const domainDecision = resolveDomainRuleDecision(name, policy);
+  if (domainDecision) {
+    return domainDecision;
+  }
+  if (matchAnyGlob(base.excluded, name, ignoreCase)) {
+    return 'exclude';
+  }
+  if (matchAnyGlob(base.included, name, ignoreCase)) {
+    return 'include';
+  }
+  return base.included.length > 0 || domain.included.length > 0 ? 'exclude' : 'include';
+}
+
+/**
+ * 解析名称在域名配置中的设置
+ * 只检查域名排除列表和域名包含列表（同样支持通配符）
+ * @param name 请求头名称或Cookie名称
+ * @param policy 过滤策略
+ * @returns 解析结果，域名配置中没有匹配的规则时返回null
+ */
+export function resolveDomainRuleDecision(name: string, policy: FilterPolicy): FilterDecision | null {
+  const { domain, ignoreCase } = policy;
+
+  if (matchAnyGlob(domain.excluded, name, ignoreCase)) {
+    return 'exclude';
+  }
+  if (matchAnyGlob(domain.included, name, ignoreCase)) {
+    return 'include';
+  }
+  return null;
+}
+
+/**
+ * 判断名称是否应该同步
+ * @param name 请求头名称或Cookie名称
+ * @param policy 过滤策略
+ * @returns 是否同步
+ */
+export function isIncludedByPolicy(name: string, policy: FilterPolicy): boolean {
+  return resolveFilterDecision(name, policy) === 'include';
+}
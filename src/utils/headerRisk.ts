@@ -0,0 +1,25 @@
+/**
+ * 请求头风险判断
+ * 携带登录凭据的请求头同步后可以直接冒用身份，在界面中单独标记
+ */
+
+// 高风险请求头（小写）
+export const HIGH_RISK_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'x-api-key',
+  'x-auth-token',
+  'x-access-token',
+  'x-csrf-token',
+  'x-xsrf-token',
+];
+
+/**
+ * 判断请求头是否为高风险请求头
+ * @param name 请求头名称
+ * @returns 是否高风险
+ */
+export function isHighRiskHeader(name: string): boolean {
+  return HIGH_RISK_HEADERS.includes(name.toLowerCase());
+}
@@ -0,0 +1,45 @@
+/**
+ * 请求头快照规则匹配
+ * 按URL路径通配规则和请求方法判断请求是否属于某个快照
+ */
+
+import { HeaderSnapshotRule } from '../service/config';
+import { matchGlob } from './patternMatcher';
+
+/**
+ * 判断请求是否匹配快照规则
+ * @param rule 快照规则
+ * @param url 请求URL
+ * @param method 请求方法
+ * @returns 是否匹配
+ */
+export function matchesSnapshotRule(rule: HeaderSnapshotRule, url: string, method: string): boolean {
+  if (rule.methods && rule.methods.length > 0 &&
+      !rule.methods.some(allowed => allowed.toUpperCase() === method.toUpperCase())) {
+    return false;
+  }
+  if (!rule.pathPattern) {
+    return true;
+  }
+  try {
+    // URL路径区分大小写
+    return matchGlob(rule.pathPattern, new URL(url).pathname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 获取请求匹配的所有快照规则
+ * @param rules 快照规则列表
+ * @param url 请求URL
+ * @param method 请求方法
+ * @returns HeaderSnapshotRule[] 匹配的快照规则
+ */
+export function getMatchingSnapshotRules(
+  rules: HeaderSnapshotRule[],
+  url: string,
+  method: string
+): HeaderSnapshotRule[] {
+  return rules.filter(rule => rule.name && matchesSnapshotRule(rule, url, method));
+}
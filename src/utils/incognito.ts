@@ -0,0 +1,23 @@
+/**
+ * 隐身模式工具
+ * 扩展以 split 模式运行时，隐身窗口使用独立的扩展实例，这里判断当前实例是否为隐身实例
+ */
+
+// 隐身实例使用的存储键名前缀，与普通实例的数据隔离
+export const INCOGNITO_STORAGE_PREFIX = 'incognito:';
+
+/**
+ * 判断当前是否运行在隐身实例中
+ * @returns 是否为隐身实例
+ */
+export function isIncognitoContext(): boolean {
+  return !!chrome.extension?.inIncognitoContext;
+}
+
+/**
+ * 获取当前实例使用的存储键名前缀
+ * @returns 隐身实例返回隐身前缀，普通实例返回空字符串
+ */
+export function getContextStoragePrefix(): string {
+  return isIncognitoContext() ? INCOGNITO_STORAGE_PREFIX : '';
+}
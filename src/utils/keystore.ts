@@ -0,0 +1,89 @@
+/**
+ * 私钥加密存储工具
+ * 使用 PBKDF2 从口令派生密钥，再用 AES-GCM 加密 secp256k1 私钥
+ */
+
+import { base64ToBytes, bytesToBase64 } from './encoding';
+
+// PBKDF2 迭代次数
+const PBKDF2_ITERATIONS = 210000;
+
+// 加密后的私钥
+export interface EncryptedKeystore {
+  version: 1;                   // 格式版本
+  kdf: 'pbkdf2-sha256';         // 密钥派生算法
+  iterations: number;           // 迭代次数
+  salt: string;                 // 盐（Base64）
+  iv: string;                   // AES-GCM 初始化向量（Base64）
+  ciphertext: string;           // 加密后的私钥（Base64）
+}
+
+/**
+ * 从口令派生 AES-GCM 密钥
+ * @param passphrase 口令
+ * @param salt 盐
+ * @param iterations 迭代次数
+ * @returns Promise<CryptoKey> AES-GCM 密钥
+ */
+async function deriveWrappingKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * 使用口令加密私钥
+ * @param privateKey 私钥（十六进制字符串）
+ * @param passphrase 口令
+ * @returns Promise<EncryptedKeystore> 加密后的私钥
+ */
+export async function encryptPrivateKey(privateKey: string, passphrase: string): Promise<EncryptedKeystore> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveWrappingKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(privateKey)
+  );
+
+  return {
+    version: 1,
+    kdf: 'pbkdf2-sha256',
+    iterations: PBKDF2_ITERATIONS,
+    salt: bytesToBase64(salt),
+    iv: bytesToBase64(iv),
+    ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * 使用口令解密私钥
+ * @param keystore 加密后的私钥
+ * @param passphrase 口令
+ * @returns Promise<string> 私钥（十六进制字符串），口令错误时抛出错误
+ */
+export async function decryptPrivateKey(keystore: EncryptedKeystore, passphrase: string): Promise<string> {
+  const key = await deriveWrappingKey(passphrase, base64ToBytes(keystore.salt), keystore.iterations);
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(keystore.iv) },
+      key,
+      base64ToBytes(keystore.ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch (error) {
+    throw new Error('口令错误，无法解锁私钥');
+  }
+}
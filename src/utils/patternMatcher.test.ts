@@ -0,0 +1,48 @@
+import { matchAnyGlob, matchGlob } from './patternMatcher';
+
+describe('matchGlob', () => {
+  it('没有通配符时精确匹配', () => {
+    expect(matchGlob('session', 'session')).toBe(true);
+    expect(matchGlob('session', 'session_id')).toBe(false);
+    expect(matchGlob('session', 'Session')).toBe(false);
+  });
+
+  it('* 匹配任意多个字符（包括空）', () => {
+    expect(matchGlob('_ga*', '_ga')).toBe(true);
+    expect(matchGlob('_ga*', '_ga_ABC123')).toBe(true);
+    expect(matchGlob('*_token', 'csrf_token')).toBe(true);
+    expect(matchGlob('x-*-id', 'x-request-id')).toBe(true);
+    expect(matchGlob('_ga*', 'my_ga')).toBe(false);
+  });
+
+  it('? 只匹配单个字符', () => {
+    expect(matchGlob('sid?', 'sid1')).toBe(true);
+    expect(matchGlob('sid?', 'sid')).toBe(false);
+    expect(matchGlob('sid?', 'sid12')).toBe(false);
+    expect(matchGlob('?id', 'sid')).toBe(true);
+  });
+
+  it('正则特殊字符按原样匹配', () => {
+    expect(matchGlob('a.b*', 'a.bc')).toBe(true);
+    expect(matchGlob('a.b*', 'axbc')).toBe(false);
+    expect(matchGlob('(x)+*', '(x)+1')).toBe(true);
+    expect(matchGlob('[id]?', '[id]1')).toBe(true);
+  });
+
+  it('按参数忽略大小写', () => {
+    expect(matchGlob('X-Custom-*', 'x-custom-header', true)).toBe(true);
+    expect(matchGlob('X-Custom-*', 'x-custom-header')).toBe(false);
+    expect(matchGlob('Authorization', 'authorization', true)).toBe(true);
+  });
+});
+
+describe('matchAnyGlob', () => {
+  it('匹配任意一条规则', () => {
+    expect(matchAnyGlob(['_ga*', 'sid?'], 'sid1')).toBe(true);
+    expect(matchAnyGlob(['_ga*', 'sid?'], 'token')).toBe(false);
+  });
+
+  it('规则列表为空时不匹配', () => {
+    expect(matchAnyGlob([], 'anything')).toBe(false);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * 名称通配匹配工具
+ * 支持 * （任意多个字符）和 ? （单个字符），用于Cookie名称和请求头名称的过滤规则
+ */
+
+// 已编译的通配规则缓存，过滤时会被频繁调用
+const regexCache = new Map<string, RegExp>();
+
+/**
+ * 将通配规则编译为正则表达式
+ * @param pattern 通配规则，例如 _ga*
+ * @param ignoreCase 是否忽略大小写
+ * @returns 正则表达式
+ */
+function compileGlob(pattern: string, ignoreCase: boolean): RegExp {
+  const cacheKey = `${ignoreCase ? 'i' : 's'}:${pattern}`;
+  let regex = regexCache.get(cacheKey);
+  if (!regex) {
+    const source = pattern
+      .split('')
+      .map(char => {
+        if (char === '*') return '.*';
+        if (char === '?') return '.';
+        return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+    regex = new RegExp(`^${source}$`, ignoreCase ? 'i' : '');
+    regexCache.set(cacheKey, regex);
+  }
+  return regex;
+}
+
+/**
+ * 判断名称是否匹配通配规则
+ * @param pattern 通配规则
+ * @param name 名称
+ * @param ignoreCase 是否忽略大小写
+ * @returns 是否匹配
+ */
+export function matchGlob(pattern: string, name: string, ignoreCase: boolean = false): boolean {
+  if (!pattern.includes('*') && !pattern.includes('?')) {
+    return ignoreCase ? pattern.toLowerCase() === name.toLowerCase() : pattern === name;
+  }
+  return compileGlob(pattern, ignoreCase).test(name);
+}
+
+/**
+ * 判断名称是否匹配任意一条通配规则
+ * @param patterns 通配规则列表
+ * @param name 名称
+ * @param ignoreCase 是否忽略大小写
+ * @returns 是否匹配
+ */
+export function matchAnyGlob(patterns: string[], name: string, ignoreCase: boolean = false): boolean {
+  return patterns.some(pattern => matchGlob(pattern, name, ignoreCase));
+}
@@ -0,0 +1,107 @@
+/**
+ * @jest-environment node
+ */
+
+import { splitIntoChunks } from './payloadChunker';
+import { getKeyResult, SetDataResult } from './cookieCloudApiClient';
+import { CookieCloudDataItem } from './transports';
+
+// 请求体 {"data":{}} 的固定开销
+const OVERHEAD = '{"data":{}}'.length;
+
+const item = (data: string): CookieCloudDataItem => ({ data, timestamp: 1700000000000 });
+
+/**
+ * 计算数据项在请求体中占用的字节数（与分批时的估算方式一致）
+ */
+const entryBytes = (key: string, value: CookieCloudDataItem): number =>
+  Buffer.byteLength(`${JSON.stringify(key)}:${JSON.stringify(value)},`);
+
+const createDataMap = (count: number, size: number = 10): Map<string, CookieCloudDataItem> => {
+  const dataMap = new Map<string, CookieCloudDataItem>();
+  for (let i = 0; i < count; i++) {
+    dataMap.set(`key-${i}`, item('x'.repeat(size)));
+  }
+  return dataMap;
+};
+
+const keysOf = (chunks: Map<string, CookieCloudDataItem>[]) => chunks.map(chunk => Array.from(chunk.keys()));
+
+describe('splitIntoChunks', () => {
+  it('没有数据时不产生批次', () => {
+    expect(splitIntoChunks(new Map(), { maxBytes: 100, maxItems: 10 })).toEqual([]);
+  });
+
+  it('刚好达到大小限制时不拆分，超出一个字节时拆分', () => {
+    const dataMap = createDataMap(2);
+    const total = OVERHEAD + entryBytes('key-0', dataMap.get('key-0')!) + entryBytes('key-1', dataMap.get('key-1')!);
+
+    expect(keysOf(splitIntoChunks(dataMap, { maxBytes: total, maxItems: 10 }))).toEqual([['key-0', 'key-1']]);
+    expect(keysOf(splitIntoChunks(dataMap, { maxBytes: total - 1, maxItems: 10 }))).toEqual([['key-0'], ['key-1']]);
+  });
+
+  it('按数据项数量拆分', () => {
+    const chunks = splitIntoChunks(createDataMap(5), { maxBytes: 1024 * 1024, maxItems: 2 });
+    expect(keysOf(chunks)).toEqual([['key-0', 'key-1'], ['key-2', 'key-3'], ['key-4']]);
+  });
+
+  it('超过大小限制的数据项单独成为一批', () => {
+    const dataMap = new Map([
+      ['small-0', item('a')],
+      ['large', item('x'.repeat(500))],
+      ['small-1', item('b')],
+    ]);
+
+    const chunks = splitIntoChunks(dataMap, { maxBytes: 200, maxItems: 10 });
+    expect(keysOf(chunks)).toEqual([['small-0'], ['large'], ['small-1']]);
+  });
+
+  it('多字节字符按 UTF-8 长度计算', () => {
+    const dataMap = new Map([['a', item('中文')], ['b', item('中文')]]);
+    const asciiBytes = OVERHEAD + 2 * entryBytes('a', item('xx'));
+
+    // 按字符数计算能放下两项，按 UTF-8 字节数计算放不下
+    expect(splitIntoChunks(dataMap, { maxBytes: asciiBytes, maxItems: 10 })).toHaveLength(2);
+  });
+
+  it('批次保持原有顺序，合并后与原数据一致', () => {
+    const keys = ['z', 'a', 'm', 'b', 'y'];
+    const dataMap = new Map(keys.map(key => [key, item(key.repeat(30))] as [string, CookieCloudDataItem]));
+
+    const chunks = splitIntoChunks(dataMap, { maxBytes: 150, maxItems: 10 });
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(keysOf(chunks).flat()).toEqual(keys);
+
+    const merged = new Map(chunks.flatMap(chunk => Array.from(chunk.entries())));
+    expect(merged).toEqual(dataMap);
+  });
+});
+
+describe('getKeyResult', () => {
+  const result: SetDataResult = {
+    success: false,
+    message: '部分批次发送失败',
+    chunks: [
+      { keys: ['key-0', 'key-1'], success: true, rejected: { 'key-1': { reason: 'quota_exceeded' } } },
+      { keys: ['key-2'], success: false, message: 'HTTP错误: 502' },
+      { keys: ['key-3'], success: true },
+    ],
+  };
+
+  it('按数据项所在批次返回结果', () => {
+    expect(getKeyResult(result, 'key-0')).toEqual({ success: true, message: undefined });
+    expect(getKeyResult(result, 'key-3')).toEqual({ success: true, message: undefined });
+  });
+
+  it('失败批次中的数据项返回失败，不影响其他批次', () => {
+    expect(getKeyResult(result, 'key-2')).toEqual({ success: false, message: 'HTTP错误: 502' });
+  });
+
+  it('被拒绝的数据项返回拒绝原因', () => {
+    expect(getKeyResult(result, 'key-1')).toEqual({ success: false, message: '超出存储配额' });
+  });
+
+  it('不在任何批次中的数据项使用整体结果', () => {
+    expect(getKeyResult(result, 'key-9')).toEqual({ success: false, message: '部分批次发送失败' });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * 数据分批工具
+ * 按单个请求的最大数据大小和最大数据项数量，把待发送的数据拆分为多个批次
+ */
+
+import { CookieCloudDataItem } from './transports';
+
+// 分批限制
+export interface ChunkLimits {
+  maxBytes: number;         // 单批最大字节数（按 JSON 序列化后的 UTF-8 长度估算）
+  maxItems: number;         // 单批最大数据项数量
+}
+
+// 请求体 {"data":{}} 的固定开销
+const ENVELOPE_OVERHEAD_BYTES = 11;
+
+const textEncoder = new TextEncoder();
+
+/**
+ * 估算数据项在请求体中占用的字节数
+ * @param key 数据标识
+ * @param item 数据项
+ * @returns 字节数（包含分隔用的逗号）
+ */
+function estimateEntryBytes(key: string, item: CookieCloudDataItem): number {
+  return textEncoder.encode(`${JSON.stringify(key)}:${JSON.stringify(item)},`).length;
+}
+
+/**
+ * 把数据拆分为多个批次
+ * 单个数据项超过大小限制时单独成为一批，由endpoint决定是否接受
+ * @param dataMap 数据标识 -> 数据项
+ * @param limits 分批限制
+ * @returns Map<string, CookieCloudDataItem>[] 批次列表，保持原有顺序
+ */
+export function splitIntoChunks(
+  dataMap: Map<string, CookieCloudDataItem>,
+  limits: ChunkLimits
+): Map<string, CookieCloudDataItem>[] {
+  const chunks: Map<string, CookieCloudDataItem>[] = [];
+  let current = new Map<string, CookieCloudDataItem>();
+  let currentBytes = ENVELOPE_OVERHEAD_BYTES;
+
+  dataMap.forEach((item, key) => {
+    const entryBytes = estimateEntryBytes(key, item);
+    const full = current.size >= limits.maxItems || currentBytes + entryBytes > limits.maxBytes;
+    if (current.size > 0 && full) {
+      chunks.push(current);
+      current = new Map<string, CookieCloudDataItem>();
+      currentBytes = ENVELOPE_OVERHEAD_BYTES;
+    }
+    current.set(key, item);
+    currentBytes += entryBytes;
+  });
+
+  if (current.size > 0) {
+    chunks.push(current);
+  }
+  return chunks;
+}
@@ -0,0 +1,104 @@
+import { DecryptedEnvelope, EnvelopeContext } from './crypto';
+import { ReceiveRecord } from '../service/config';
+import {
+  checkFreshness,
+  hasMissingDelta,
+  isAlreadyApplied,
+  MAX_CLOCK_SKEW_MS,
+  MAX_ENVELOPE_AGE_MS,
+} from './receiveChecks';
+
+const NOW = 1700000000000;
+
+const createEnvelope = (context?: Partial<EnvelopeContext>): DecryptedEnvelope => ({
+  version: context ? 3 : 1,
+  data: '{}',
+  context: context && {
+    sender: 'sender',
+    identifier: 'peer/example.com',
+    sequence: 10,
+    timestamp: NOW - 1000,
+    ...context,
+  },
+});
+
+const createRecord = (overrides: Partial<ReceiveRecord> = {}): ReceiveRecord => ({
+  timestamp: NOW - 60 * 1000,
+  appliedTime: NOW - 60 * 1000,
+  sequence: 5,
+  ...overrides,
+});
+
+describe('checkFreshness', () => {
+  it('没有接收记录时接受新数据', () => {
+    expect(checkFreshness(createEnvelope({}), undefined, NOW)).toBeNull();
+  });
+
+  it('序列号递增时接受', () => {
+    expect(checkFreshness(createEnvelope({ sequence: 6 }), createRecord(), NOW)).toBeNull();
+  });
+
+  it('拒绝重放的数据', () => {
+    const record = createRecord({ sequence: 10, timestamp: NOW - 1000 });
+    expect(checkFreshness(createEnvelope({ sequence: 10 }), record, NOW)).toBe('数据序列号未递增，疑似重放');
+  });
+
+  it('拒绝乱序到达的旧序列号', () => {
+    expect(checkFreshness(createEnvelope({ sequence: 4 }), createRecord(), NOW)).toBe('数据序列号未递增，疑似重放');
+  });
+
+  it('拒绝时间戳早于已应用数据的数据', () => {
+    const record = createRecord({ timestamp: NOW - 500 });
+    expect(checkFreshness(createEnvelope({ sequence: 6 }), record, NOW)).toBe('数据时间戳早于已应用的数据，疑似重放');
+  });
+
+  it('允许时钟超前不超过上限', () => {
+    expect(checkFreshness(createEnvelope({ timestamp: NOW + MAX_CLOCK_SKEW_MS }), undefined, NOW)).toBeNull();
+    expect(checkFreshness(createEnvelope({ timestamp: NOW + MAX_CLOCK_SKEW_MS + 1 }), undefined, NOW))
+      .toBe('数据时间戳超前于当前时间');
+  });
+
+  it('拒绝超过最长有效期的数据', () => {
+    expect(checkFreshness(createEnvelope({ timestamp: NOW - MAX_ENVELOPE_AGE_MS }), undefined, NOW)).toBeNull();
+    expect(checkFreshness(createEnvelope({ timestamp: NOW - MAX_ENVELOPE_AGE_MS - 1 }), undefined, NOW)).toBe('数据已过期');
+  });
+
+  it('收到过带签名上下文的数据后拒绝旧格式数据', () => {
+    expect(checkFreshness(createEnvelope(), undefined, NOW)).toBeNull();
+    expect(checkFreshness(createEnvelope(), createRecord({ sequence: undefined }), NOW)).toBeNull();
+    expect(checkFreshness(createEnvelope(), createRecord(), NOW)).toBe('数据缺少签名上下文，疑似降级重放');
+  });
+});
+
+describe('isAlreadyApplied', () => {
+  it('签名的序列号和时间戳与接收记录一致时视为已应用', () => {
+    const record = createRecord({ sequence: 10, timestamp: NOW - 1000 });
+    expect(isAlreadyApplied(createEnvelope({}), record)).toBe(true);
+    expect(isAlreadyApplied(createEnvelope({ timestamp: NOW }), record)).toBe(false);
+    expect(isAlreadyApplied(createEnvelope({}), undefined)).toBe(false);
+  });
+
+  it('旧格式数据每次都重新应用', () => {
+    expect(isAlreadyApplied(createEnvelope(), createRecord())).toBe(false);
+  });
+});
+
+describe('hasMissingDelta', () => {
+  it('上一次发送的序列号就是已应用的数据时没有缺失', () => {
+    expect(hasMissingDelta(createEnvelope({ sequence: 6, previousSequence: 5 }), createRecord())).toBe(false);
+  });
+
+  it('上一次发送的序列号晚于已应用的数据时有缺失', () => {
+    expect(hasMissingDelta(createEnvelope({ sequence: 8, previousSequence: 7 }), createRecord())).toBe(true);
+  });
+
+  it('没有接收记录时增量数据有缺失', () => {
+    expect(hasMissingDelta(createEnvelope({ previousSequence: 9 }), undefined)).toBe(true);
+    expect(hasMissingDelta(createEnvelope({ previousSequence: 9 }), createRecord({ sequence: undefined }))).toBe(true);
+  });
+
+  it('首次发送或旧格式数据不检查缺失', () => {
+    expect(hasMissingDelta(createEnvelope({}), undefined)).toBe(false);
+    expect(hasMissingDelta(createEnvelope(), undefined)).toBe(false);
+  });
+});
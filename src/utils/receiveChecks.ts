@@ -0,0 +1,67 @@
+/**
+ * 接收数据检查工具
+ * 根据已验证的签名上下文和接收记录判断数据是否新鲜、是否已应用、增量数据之前是否有缺失
+ */
+
+import { DecryptedEnvelope } from './crypto';
+import { ReceiveRecord } from '../service/config';
+
+// 允许的发送方时钟超前时间（毫秒）
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+// 数据最长有效期（毫秒），超过后不再应用
+export const MAX_ENVELOPE_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * 检查解密后的数据是否新鲜，防止endpoint重放旧数据
+ * @param envelope 已验证签名的解密结果
+ * @param record 该数据标识的接收记录
+ * @param now 当前时间
+ * @returns 不新鲜的原因，新鲜时返回null
+ */
+export function checkFreshness(envelope: DecryptedEnvelope, record: ReceiveRecord | undefined, now: number): string | null {
+  const { context } = envelope;
+  if (!context) {
+    // 收到过带签名上下文的数据后，不再接受旧格式数据，防止降级重放
+    return record?.sequence !== undefined ? '数据缺少签名上下文，疑似降级重放' : null;
+  }
+  if (context.timestamp > now + MAX_CLOCK_SKEW_MS) {
+    return '数据时间戳超前于当前时间';
+  }
+  if (now - context.timestamp > MAX_ENVELOPE_AGE_MS) {
+    return '数据已过期';
+  }
+  if (record?.sequence !== undefined && context.sequence <= record.sequence) {
+    return '数据序列号未递增，疑似重放';
+  }
+  if (record && context.timestamp < record.timestamp) {
+    return '数据时间戳早于已应用的数据，疑似重放';
+  }
+  return null;
+}
+
+/**
+ * 判断解密后的数据是否已经应用过
+ * 只比较签名上下文；旧格式数据没有签名上下文，写入是幂等的，每次都重新应用
+ * @param envelope 已验证签名的解密结果
+ * @param record 该数据标识的接收记录
+ * @returns 是否已应用
+ */
+export function isAlreadyApplied(envelope: DecryptedEnvelope, record: ReceiveRecord | undefined): boolean {
+  const { context } = envelope;
+  return !!context && record?.sequence === context.sequence && record.timestamp === context.timestamp;
+}
+
+/**
+ * 判断增量数据之前是否有未收到的数据
+ * 签名中上一次发送的序列号晚于已应用的数据时，中间的增量数据已丢失，只应用这份增量数据会缺少其中的变化
+ * @param envelope 已验证签名的解密结果
+ * @param record 该数据标识的接收记录
+ * @returns 是否有缺失
+ */
+export function hasMissingDelta(envelope: DecryptedEnvelope, record: ReceiveRecord | undefined): boolean {
+  const previousSequence = envelope.context?.previousSequence;
+  if (previousSequence === undefined) {
+    return false;
+  }
+  return record?.sequence === undefined || previousSequence > record.sequence;
+}
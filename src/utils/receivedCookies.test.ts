@@ -0,0 +1,77 @@
+import { selectReceivedCookieChanges } from './receivedCookies';
+import { CookieTombstone } from '../service/domainState';
+
+function cookie(domain: string, name: string, hostOnly: boolean): chrome.cookies.Cookie {
+  return {
+    domain,
+    name,
+    value: 'v',
+    path: '/',
+    hostOnly,
+    secure: true,
+    httpOnly: false,
+    session: true,
+    sameSite: 'lax',
+    storeId: '0'
+  };
+}
+
+function tombstone(domain: string, name: string): CookieTombstone {
+  return { domain, name, path: '/', secure: true, storeId: '0', cause: 'explicit', removedAt: 1 };
+}
+
+describe('selectReceivedCookieChanges', () => {
+  it('接受属于数据域名的Cookie', () => {
+    const result = selectReceivedCookieChanges({
+      cookies: [cookie('example.com', 'a', true), cookie('.example.com', 'b', false)],
+      removed: [tombstone('.example.com', 'c')]
+    }, 'example.com');
+
+    expect(result.upserts.map(item => item.name)).toEqual(['a', 'b']);
+    expect(result.removals.map(item => item.name)).toEqual(['c']);
+    expect(result.rejectedCount).toBe(0);
+  });
+
+  it('丢弃其他域名的写入和删除', () => {
+    const result = selectReceivedCookieChanges({
+      cookies: [cookie('example.com', 'a', true)],
+      added: [cookie('.bank.com', 'session', false)],
+      changed: [cookie('example.com.evil.com', 'b', true)],
+      removed: [tombstone('.bank.com', 'auth'), tombstone('com', 'c')]
+    }, 'example.com');
+
+    expect(result.upserts.map(item => item.name)).toEqual(['a']);
+    expect(result.removals).toEqual([]);
+    expect(result.rejectedCount).toBe(4);
+  });
+
+  it('只允许仅限主机的Cookie位于子域名下', () => {
+    const result = selectReceivedCookieChanges({
+      cookies: [cookie('www.example.com', 'host', true), cookie('.www.example.com', 'domain', false)],
+      removed: [tombstone('api.example.com', 'old-host'), tombstone('.api.example.com', 'old-domain')]
+    }, 'example.com');
+
+    expect(result.upserts.map(item => item.name)).toEqual(['host']);
+    expect(result.removals.map(item => item.domain)).toEqual(['api.example.com']);
+    expect(result.rejectedCount).toBe(2);
+  });
+
+  it('不接受父域名的Cookie', () => {
+    const result = selectReceivedCookieChanges({
+      cookies: [cookie('.example.com', 'parent', false)]
+    }, 'www.example.com');
+
+    expect(result.upserts).toEqual([]);
+    expect(result.rejectedCount).toBe(1);
+  });
+
+  it('同一数据中又写入的Cookie不删除', () => {
+    const result = selectReceivedCookieChanges({
+      changed: [cookie('example.com', 'a', true)],
+      removed: [tombstone('example.com', 'a')]
+    }, 'example.com');
+
+    expect(result.upserts).toHaveLength(1);
+    expect(result.removals).toEqual([]);
+  });
+});
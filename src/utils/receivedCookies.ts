@@ -0,0 +1,50 @@
+/**
+ * 接收数据中的Cookie筛选
+ * 对端只能修改其数据所属域名的Cookie，防止受信任的对端或endpoint借一个域名的数据改写其他域名的Cookie
+ */
+
+import { CookieTombstone } from '../service/domainState';
+import { getCookieKey } from './cookieStores';
+import { isCookieWithinDomain } from './domainMatcher';
+
+// 筛选后需要写入和删除的Cookie
+export interface ReceivedCookieChanges {
+  upserts: chrome.cookies.Cookie[];     // 需要写入的Cookie
+  removals: CookieTombstone[];          // 需要删除的Cookie
+  rejectedCount: number;                // 不属于该域名而被丢弃的数量
+}
+
+// 接收数据中与Cookie相关的部分
+interface ReceivedCookiePayload {
+  cookies?: chrome.cookies.Cookie[];
+  added?: chrome.cookies.Cookie[];
+  changed?: chrome.cookies.Cookie[];
+  removed?: CookieTombstone[];
+}
+
+/**
+ * 筛选接收数据中需要写入和删除的Cookie
+ * 不属于数据所属域名的Cookie和删除记录全部丢弃；同一数据中又写入的Cookie不删除
+ * @param payload 解密后的数据
+ * @param domain 数据所属域名（数据标识对应的域名）
+ * @returns ReceivedCookieChanges 筛选结果
+ */
+export function selectReceivedCookieChanges(payload: ReceivedCookiePayload, domain: string): ReceivedCookieChanges {
+  let rejectedCount = 0;
+  const withinDomain = <T extends { domain: string }>(items: T[]): T[] => items.filter(item => {
+    const allowed = isCookieWithinDomain(item, domain);
+    if (!allowed) {
+      rejectedCount++;
+    }
+    return allowed;
+  });
+
+  const upserts = withinDomain([...(payload.cookies || []), ...(payload.added || []), ...(payload.changed || [])]);
+
+  // 都写入本地当前存储，只按分区、名称和路径区分
+  const upsertKeys = new Set(upserts.map(cookie => getCookieKey({ ...cookie, storeId: '' })));
+  const removals = withinDomain(payload.removed || [])
+    .filter(tombstone => !upsertKeys.has(getCookieKey({ ...tombstone, storeId: '' })));
+
+  return { upserts, removals, rejectedCount };
+}
@@ -0,0 +1,127 @@
+/**
+ * 传输层基类
+ * 统一处理认证请求头、fetch 注入和 HTTP 错误
+ */
+
+import { EndpointProfile } from '../../service/config';
+import { buildAuthHeaders } from '../endpointAuth';
+import {
+  CookieCloudDataItem,
+  FetchFunction,
+  SyncTransport,
+  TransportFetchResult,
+  TransportResponse,
+  TransportResult
+} from './types';
+
+// 默认使用全局 fetch（需要包一层，直接保存引用调用时会丢失 this）
+const defaultFetch: FetchFunction = (input, init) => fetch(input, init);
+
+/**
+ * 传输层基类
+ */
+export abstract class BaseTransport implements SyncTransport {
+  protected readonly profile: EndpointProfile;
+  private readonly fetchFn: FetchFunction;
+
+  /**
+   * @param profile endpoint配置
+   * @param fetchFn fetch 函数（可选，测试时注入）
+   */
+  constructor(profile: EndpointProfile, fetchFn: FetchFunction = defaultFetch) {
+    this.profile = profile;
+    this.fetchFn = fetchFn;
+  }
+
+  abstract send(dataMap: Map<string, CookieCloudDataItem>): Promise<TransportResult>;
+
+  abstract fetch(keys: string[]): Promise<TransportFetchResult>;
+
+  /**
+   * 拼接接口地址
+   * @param path 接口路径
+   * @returns 完整的地址
+   */
+  protected buildUrl(path: string): string {
+    return `${this.profile.url.replace(/\/+$/, '')}${path}`;
+  }
+
+  /**
+   * 发送请求
+   * @param url 请求地址
+   * @param init 请求参数
+   * @param withAuth 是否附加认证请求头（预签名地址不需要）
+   * @returns Promise<TransportResponse> 响应
+   */
+  protected async request(url: string, init: RequestInit = {}, withAuth: boolean = true): Promise<TransportResponse> {
+    const method = init.method || 'GET';
+    const body = typeof init.body === 'string' ? init.body : '';
+    return this.fetchFn(url, {
+      ...init,
+      method,
+      headers: {
+        ...(withAuth ? buildAuthHeaders(this.profile.auth, method, url, body) : {}),
+        ...(init.headers as Record<string, string> | undefined),
+      },
+    });
+  }
+
+  /**
+   * 发送 JSON 请求并解析响应
+   * @param url 请求地址
+   * @param method 请求方法
+   * @param payload 请求体对象
+   * @returns Promise<any> 响应的 JSON 内容
+   */
+  protected async requestJson(url: string, method: string, payload?: unknown): Promise<any> {
+    const response = await this.request(url, {
+      method,
+      headers: payload === undefined ? {} : { 'Content-Type': 'application/json' },
+      body: payload === undefined ? undefined : JSON.stringify(payload),
+    });
+    this.assertOk(response);
+    return response.json();
+  }
+
+  /**
+   * 检查响应状态
+   * @param response 响应
+   */
+  protected assertOk(response: TransportResponse): void {
+    if (!response.ok) {
+      throw new Error(`HTTP错误: ${response.status}`);
+    }
+  }
+}
+
+/**
+ * 将数据映射表转换为对象
+ * @param dataMap 数据标识 -> 数据项
+ * @returns 数据对象
+ */
+export function dataMapToObject(dataMap: Map<string, CookieCloudDataItem>): Record<string, CookieCloudDataItem> {
+  const dataObject: Record<string, CookieCloudDataItem> = {};
+  dataMap.forEach((value, key) => {
+    dataObject[key] = value;
+  });
+  return dataObject;
+}
+
+/**
+ * 从数据对象中挑选指定的数据标识
+ * @param data 数据对象
+ * @param keys 数据标识列表
+ * @returns 只包含存在的数据标识的对象
+ */
+export function pickKeys(
+  data: Record<string, CookieCloudDataItem>,
+  keys: string[]
+): Record<string, CookieCloudDataItem> {
+  const picked: Record<string, CookieCloudDataItem> = {};
+  for (const key of keys) {
+    if (data[key]) {
+      picked[key] = data[key];
+    }
+  }
+  return picked;
+}
@@ -0,0 +1,99 @@
+/**
+ * 原版 CookieCloud 服务端传输
+ * 协议：POST /update 发送 {uuid, encrypted}，GET /get/:uuid 返回 {encrypted}
+ * encrypted 为 CryptoJS.AES 使用 MD5(uuid + '-' + password) 前16位作为口令加密的 JSON
+ * 服务端每个 uuid 只保存一份数据，发送时先读取已有数据再合并
+ * 服务端不支持条件写入，多台设备同时发送时后写入的一方覆盖先写入的数据（后写者胜），
+ * 被覆盖的数据标识要等发送方下一次发送（内容变化、全量快照或内容哈希过期）才会恢复
+ */
+
+import * as CryptoJS from 'crypto-js';
+import { BaseTransport, pickKeys } from './baseTransport';
+import { CookieCloudDataItem, TransportFetchResult, TransportResult } from './types';
+
+/**
+ * 计算原版 CookieCloud 的加密口令
+ * @param uuid 用户 KEY
+ * @param password 端对端加密密码
+ * @returns 加密口令
+ */
+export function deriveCookieCloudKey(uuid: string, password: string): string {
+  return CryptoJS.MD5(`${uuid}-${password}`).toString().substring(0, 16);
+}
+
+export class CookieCloudTransport extends BaseTransport {
+  /**
+   * 获取 uuid 和加密口令
+   * @returns {uuid, key}
+   */
+  private getCredentials(): { uuid: string, key: string } {
+    const { cookieCloudUuid, cookieCloudPassword } = this.profile.transportSettings || {};
+    if (!cookieCloudUuid || !cookieCloudPassword) {
+      throw new Error('未配置 CookieCloud 的用户KEY或密码');
+    }
+    return {
+      uuid: cookieCloudUuid,
+      key: deriveCookieCloudKey(cookieCloudUuid, cookieCloudPassword),
+    };
+  }
+
+  /**
+   * 加密并上传整份数据
+   * @param payload 数据对象
+   * @returns Promise<void>
+   */
+  async uploadPayload(payload: object): Promise<void> {
+    const { uuid, key } = this.getCredentials();
+    const encrypted = CryptoJS.AES.encrypt(JSON.stringify(payload), key).toString();
+    const result = await this.requestJson(this.buildUrl('/update'), 'POST', { uuid, encrypted });
+    if (result && result.action && result.action !== 'done') {
+      throw new Error(`CookieCloud 服务端返回: ${result.action}`);
+    }
+  }
+
+  /**
+   * 下载并解密整份数据
+   * @returns Promise<any | null> 数据对象，服务端没有数据时返回null
+   */
+  async downloadPayload(): Promise<any | null> {
+    const { uuid, key } = this.getCredentials();
+    const response = await this.request(this.buildUrl(`/get/${encodeURIComponent(uuid)}`));
+    if (response.status === 404) {
+      return null;
+    }
+    this.assertOk(response);
+
+    const result = await response.json();
+    if (!result || !result.encrypted) {
+      return null;
+    }
+    const decrypted = CryptoJS.AES.decrypt(result.encrypted, key).toString(CryptoJS.enc.Utf8);
+    if (!decrypted) {
+      throw new Error('CookieCloud 数据解密失败，请检查用户KEY和密码');
+    }
+    return JSON.parse(decrypted);
+  }
+
+  async send(dataMap: Map<string, CookieCloudDataItem>): Promise<TransportResult> {
+    // 读取和上传之间没有锁，其他设备在此期间上传的数据会被覆盖
+    const existing = await this.downloadPayload();
+    const data: Record<string, CookieCloudDataItem> = { ...(existing?.data || {}) };
+    dataMap.forEach((value, key) => {
+      data[key] = value;
+    });
+    await this.uploadPayload({ data });
+    return {
+      success: true,
+      message: '数据发送成功'
+    };
+  }
+
+  async fetch(keys: string[]): Promise<TransportFetchResult> {
+    const existing = await this.downloadPayload();
+    return {
+      success: true,
+      message: '数据拉取成功',
+      data: pickKeys(existing?.data || {}, keys)
+    };
+  }
+}
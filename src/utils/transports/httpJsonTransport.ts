@@ -0,0 +1,54 @@
+/**
+ * HTTP JSON 传输
+ * 本插件的默认协议：POST /set 发送 {data: {...}}，POST /get 发送 {keys: [...]}
+ * /set 响应：{message?, rejected?: {<key>: {reason, message?}}}，
+ * rejected 中未列出的数据标识视为已接受
+ */
+
+import { BaseTransport, dataMapToObject } from './baseTransport';
+import { CookieCloudDataItem, KeyRejection, TransportFetchResult, TransportResult } from './types';
+
+/**
+ * 解析 /set 响应中被拒绝的数据项
+ * @param rejected 响应中的 rejected 字段
+ * @param keys 本次发送的数据标识
+ * @returns Record<string, KeyRejection> 被拒绝的数据标识，只保留本次发送的
+ */
+function parseRejections(rejected: unknown, keys: string[]): Record<string, KeyRejection> {
+  const rejections: Record<string, KeyRejection> = {};
+  if (!rejected || typeof rejected !== 'object') {
+    return rejections;
+  }
+
+  for (const key of keys) {
+    const entry = (rejected as Record<string, any>)[key];
+    if (!entry) {
+      continue;
+    }
+    rejections[key] = typeof entry === 'string'
+      ? { reason: entry }
+      : { reason: String(entry.reason || 'unknown'), message: entry.message };
+  }
+  return rejections;
+}
+
+export class HttpJsonTransport extends BaseTransport {
+  async send(dataMap: Map<string, CookieCloudDataItem>): Promise<TransportResult> {
+    const result = await this.requestJson(this.buildUrl('/set'), 'POST', { data: dataMapToObject(dataMap) });
+    const rejected = parseRejections(result?.rejected, Array.from(dataMap.keys()));
+    return {
+      success: true,
+      message: result?.message || '数据发送成功',
+      rejected
+    };
+  }
+
+  async fetch(keys: string[]): Promise<TransportFetchResult> {
+    const result = await this.requestJson(this.buildUrl('/get'), 'POST', { keys });
+    return {
+      success: true,
+      message: result.message || '数据拉取成功',
+      data: result.data || {}
+    };
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * 传输层
+ * 根据 endpoint 配置中的传输方式创建对应的传输实现
+ */
+
+import { EndpointProfile } from '../../service/config';
+import { CookieCloudTransport } from './cookieCloudTransport';
+import { HttpJsonTransport } from './httpJsonTransport';
+import { S3PresignedTransport } from './s3PresignedTransport';
+import { FetchFunction, SyncTransport } from './types';
+import { WebDavTransport } from './webDavTransport';
+
+export * from './types';
+export { CookieCloudTransport, deriveCookieCloudKey } from './cookieCloudTransport';
+export { HttpJsonTransport } from './httpJsonTransport';
+export { S3PresignedTransport } from './s3PresignedTransport';
+export { WebDavTransport } from './webDavTransport';
+
+/**
+ * 创建 endpoint 对应的传输实现
+ * @param profile endpoint配置
+ * @param fetchFn fetch 函数（可选，测试时注入）
+ * @returns SyncTransport 传输实现
+ */
+export function createTransport(profile: EndpointProfile, fetchFn?: FetchFunction): SyncTransport {
+  switch (profile.transport) {
+    case 'cookiecloud':
+      return new CookieCloudTransport(profile, fetchFn);
+    case 'webdav':
+      return new WebDavTransport(profile, fetchFn);
+    case 's3-presigned':
+      return new S3PresignedTransport(profile, fetchFn);
+    case 'http-json':
+    default:
+      return new HttpJsonTransport(profile, fetchFn);
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * S3 兼容存储预签名传输
+ * endpoint 地址为预签名服务：POST /presign 发送 {operation: 'put' | 'get', keys: [...]}，
+ * 返回 {urls: {<key>: <预签名地址>}}；每个数据项作为单独的对象上传和下载
+ * 预签名地址本身带有授权信息，访问时不附加认证请求头
+ */
+
+import { BaseTransport } from './baseTransport';
+import { CookieCloudDataItem, TransportFetchResult, TransportResult } from './types';
+
+export class S3PresignedTransport extends BaseTransport {
+  /**
+   * 向预签名服务申请地址
+   * @param operation 操作类型
+   * @param keys 数据标识列表
+   * @returns Promise<Record<string, string>> 数据标识 -> 预签名地址
+   */
+  private async presign(operation: 'put' | 'get', keys: string[]): Promise<Record<string, string>> {
+    const result = await this.requestJson(this.buildUrl('/presign'), 'POST', { operation, keys });
+    return result?.urls || {};
+  }
+
+  async send(dataMap: Map<string, CookieCloudDataItem>): Promise<TransportResult> {
+    const keys = Array.from(dataMap.keys());
+    const urls = await this.presign('put', keys);
+
+    for (const key of keys) {
+      const url = urls[key];
+      if (!url) {
+        throw new Error(`预签名服务未返回 ${key} 的上传地址`);
+      }
+      const response = await this.request(url, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(dataMap.get(key)),
+      }, false);
+      this.assertOk(response);
+    }
+
+    return {
+      success: true,
+      message: '数据发送成功'
+    };
+  }
+
+  async fetch(keys: string[]): Promise<TransportFetchResult> {
+    const urls = await this.presign('get', keys);
+    const data: Record<string, CookieCloudDataItem> = {};
+
+    for (const key of keys) {
+      const url = urls[key];
+      if (!url) {
+        continue;
+      }
+      const response = await this.request(url, { method: 'GET' }, false);
+      // 对象不存在时 S3 返回 404（无列举权限时为 403）
+      if (response.status === 404 || response.status === 403) {
+        continue;
+      }
+      this.assertOk(response);
+      data[key] = await response.json();
+    }
+
+    return {
+      success: true,
+      message: '数据拉取成功',
+      data
+    };
+  }
+}
@@ -0,0 +1,273 @@
+import * as CryptoJS from 'crypto-js';
+import { EndpointProfile } from '../../service/config';
+import {
+  CookieCloudDataItem,
+  CookieCloudTransport,
+  deriveCookieCloudKey,
+  FetchFunction,
+  HttpJsonTransport,
+  S3PresignedTransport,
+  TransportResponse,
+  WebDavTransport
+} from './index';
+
+// 模拟服务器收到的请求
+interface RecordedRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+// 模拟服务器的响应
+interface MockResponse {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * 创建模拟服务器，按顺序记录请求并由处理函数返回响应
+ * @param handler 请求处理函数
+ * @returns 注入传输的 fetch 函数和收到的请求
+ */
+function createMockServer(handler: (request: RecordedRequest) => MockResponse) {
+  const requests: RecordedRequest[] = [];
+  const fetchFn: FetchFunction = async (input, init = {}) => {
+    const request: RecordedRequest = {
+      url: String(input),
+      method: init.method || 'GET',
+      headers: (init.headers || {}) as Record<string, string>,
+      body: typeof init.body === 'string' ? JSON.parse(init.body) : undefined,
+    };
+    requests.push(request);
+
+    const { status = 200, body, headers = {} } = handler(request);
+    const text = body === undefined ? '' : JSON.stringify(body);
+    const responseHeaders = new Map(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+    return {
+      ok: status >= 200 && status < 300,
+      status,
+      headers: { get: (name: string) => responseHeaders.get(name.toLowerCase()) ?? null },
+      text: async () => text,
+      json: async () => JSON.parse(text),
+    } as TransportResponse;
+  };
+  return { fetchFn, requests };
+}
+
+function createProfile(overrides: Partial<EndpointProfile> = {}): EndpointProfile {
+  return {
+    id: 'test',
+    name: '测试',
+    url: 'https://sync.example.com/api/',
+    enabled: true,
+    auth: { type: 'bearer', token: 'secret' },
+    ...overrides,
+  };
+}
+
+function item(data: string, timestamp: number = 1): CookieCloudDataItem {
+  return { data, timestamp };
+}
+
+describe('HttpJsonTransport', () => {
+  it('POST /set 发送数据并解析被拒绝的数据标识', async () => {
+    const { fetchFn, requests } = createMockServer(() => ({
+      body: { rejected: { b: { reason: 'quota_exceeded', message: '超出配额' }, other: 'stale_timestamp' } }
+    }));
+    const transport = new HttpJsonTransport(createProfile(), fetchFn);
+
+    const result = await transport.send(new Map([['a', item('A')], ['b', item('B')]]));
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('https://sync.example.com/api/set');
+    expect(requests[0].method).toBe('POST');
+    expect(requests[0].headers['Authorization']).toBe('Bearer secret');
+    expect(requests[0].body).toEqual({ data: { a: item('A'), b: item('B') } });
+    expect(result.success).toBe(true);
+    expect(result.rejected).toEqual({ b: { reason: 'quota_exceeded', message: '超出配额' } });
+  });
+
+  it('POST /get 拉取数据', async () => {
+    const { fetchFn, requests } = createMockServer(() => ({ body: { data: { a: item('A') } } }));
+    const transport = new HttpJsonTransport(createProfile(), fetchFn);
+
+    const result = await transport.fetch(['a', 'b']);
+
+    expect(requests[0].url).toBe('https://sync.example.com/api/get');
+    expect(requests[0].body).toEqual({ keys: ['a', 'b'] });
+    expect(result.data).toEqual({ a: item('A') });
+  });
+
+  it('HTTP 错误时抛出错误', async () => {
+    const { fetchFn } = createMockServer(() => ({ status: 500 }));
+    const transport = new HttpJsonTransport(createProfile(), fetchFn);
+
+    await expect(transport.send(new Map([['a', item('A')]]))).rejects.toThrow('HTTP错误: 500');
+  });
+});
+
+describe('CookieCloudTransport', () => {
+  const settings = { cookieCloudUuid: 'uuid-1', cookieCloudPassword: 'password' };
+  const key = deriveCookieCloudKey(settings.cookieCloudUuid, settings.cookieCloudPassword);
+  const encrypt = (payload: object) => CryptoJS.AES.encrypt(JSON.stringify(payload), key).toString();
+  const decrypt = (encrypted: string) => JSON.parse(CryptoJS.AES.decrypt(encrypted, key).toString(CryptoJS.enc.Utf8));
+
+  it('读取已有数据合并后上传', async () => {
+    const { fetchFn, requests } = createMockServer(request => request.method === 'GET'
+      ? { body: { encrypted: encrypt({ data: { a: item('old'), b: item('B') } }) } }
+      : { body: { action: 'done' } });
+    const transport = new CookieCloudTransport(createProfile({ transport: 'cookiecloud', transportSettings: settings }), fetchFn);
+
+    await transport.send(new Map([['a', item('new', 2)]]));
+
+    expect(requests.map(request => `${request.method} ${request.url}`)).toEqual([
+      'GET https://sync.example.com/api/get/uuid-1',
+      'POST https://sync.example.com/api/update',
+    ]);
+    expect(requests[1].body.uuid).toBe('uuid-1');
+    expect(decrypt(requests[1].body.encrypted)).toEqual({ data: { a: item('new', 2), b: item('B') } });
+  });
+
+  it('服务端没有数据时拉取结果为空', async () => {
+    const { fetchFn } = createMockServer(() => ({ status: 404 }));
+    const transport = new CookieCloudTransport(createProfile({ transport: 'cookiecloud', transportSettings: settings }), fetchFn);
+
+    const result = await transport.fetch(['a']);
+
+    expect(result.data).toEqual({});
+  });
+
+  it('服务端返回非 done 时抛出错误', async () => {
+    const { fetchFn } = createMockServer(request => request.method === 'GET'
+      ? { status: 404 }
+      : { body: { action: 'error' } });
+    const transport = new CookieCloudTransport(createProfile({ transport: 'cookiecloud', transportSettings: settings }), fetchFn);
+
+    await expect(transport.send(new Map([['a', item('A')]]))).rejects.toThrow('CookieCloud 服务端返回: error');
+  });
+
+  it('未配置用户KEY时抛出错误', async () => {
+    const { fetchFn } = createMockServer(() => ({}));
+    const transport = new CookieCloudTransport(createProfile({ transport: 'cookiecloud' }), fetchFn);
+
+    await expect(transport.fetch(['a'])).rejects.toThrow('未配置 CookieCloud 的用户KEY或密码');
+  });
+});
+
+describe('WebDavTransport', () => {
+  const profile = createProfile({ transport: 'webdav', url: 'https://dav.example.com/cookie-cloud.json' });
+
+  it('带上 ETag 条件上传合并后的文件', async () => {
+    const { fetchFn, requests } = createMockServer(request => request.method === 'GET'
+      ? { body: { data: { b: item('B') } }, headers: { ETag: '"v1"' } }
+      : { status: 204 });
+    const transport = new WebDavTransport(profile, fetchFn);
+
+    const result = await transport.send(new Map([['a', item('A')]]));
+
+    expect(result.success).toBe(true);
+    expect(requests[1].method).toBe('PUT');
+    expect(requests[1].url).toBe('https://dav.example.com/cookie-cloud.json');
+    expect(requests[1].headers['If-Match']).toBe('"v1"');
+    expect(requests[1].body).toEqual({ data: { a: item('A'), b: item('B') } });
+  });
+
+  it('文件不存在时只允许创建', async () => {
+    const { fetchFn, requests } = createMockServer(request => request.method === 'GET' ? { status: 404 } : { status: 201 });
+    const transport = new WebDavTransport(profile, fetchFn);
+
+    await transport.send(new Map([['a', item('A')]]));
+
+    expect(requests[1].headers['If-None-Match']).toBe('*');
+    expect(requests[1].headers['If-Match']).toBeUndefined();
+  });
+
+  it('412 时重新读取合并后再上传', async () => {
+    let version = 1;
+    const { fetchFn, requests } = createMockServer(request => {
+      if (request.method === 'GET') {
+        // 第一次读取后其他设备写入了 c
+        const data = version === 1 ? { b: item('B') } : { b: item('B'), c: item('C') };
+        return { body: { data }, headers: { ETag: `"v${version}"` } };
+      }
+      if (request.headers['If-Match'] === '"v1"') {
+        version = 2;
+        return { status: 412 };
+      }
+      return { status: 204 };
+    });
+    const transport = new WebDavTransport(profile, fetchFn);
+
+    await transport.send(new Map([['a', item('A')]]));
+
+    expect(requests.map(request => request.method)).toEqual(['GET', 'PUT', 'GET', 'PUT']);
+    expect(requests[3].headers['If-Match']).toBe('"v2"');
+    expect(requests[3].body).toEqual({ data: { a: item('A'), b: item('B'), c: item('C') } });
+  });
+
+  it('持续冲突时放弃并抛出错误', async () => {
+    const { fetchFn, requests } = createMockServer(request => request.method === 'GET'
+      ? { body: { data: {} }, headers: { ETag: '"v1"' } }
+      : { status: 412 });
+    const transport = new WebDavTransport(profile, fetchFn);
+
+    await expect(transport.send(new Map([['a', item('A')]]))).rejects.toThrow('仍然冲突');
+    expect(requests.filter(request => request.method === 'PUT')).toHaveLength(4);
+  });
+
+  it('拉取时只返回请求的数据标识', async () => {
+    const { fetchFn } = createMockServer(() => ({ body: { data: { a: item('A'), b: item('B') } } }));
+    const transport = new WebDavTransport(profile, fetchFn);
+
+    const result = await transport.fetch(['a', 'missing']);
+
+    expect(result.data).toEqual({ a: item('A') });
+  });
+});
+
+describe('S3PresignedTransport', () => {
+  const profile = createProfile({ transport: 's3-presigned' });
+  const presignedUrl = (key: string) => `https://bucket.s3.example.com/${key}?X-Amz-Signature=sig`;
+
+  it('申请上传地址后逐个上传，访问预签名地址时不附加认证请求头', async () => {
+    const { fetchFn, requests } = createMockServer(request => request.url.endsWith('/presign')
+      ? { body: { urls: Object.fromEntries(request.body.keys.map((key: string) => [key, presignedUrl(key)])) } }
+      : { status: 200 });
+    const transport = new S3PresignedTransport(profile, fetchFn);
+
+    await transport.send(new Map([['a', item('A')], ['b', item('B')]]));
+
+    expect(requests[0].url).toBe('https://sync.example.com/api/presign');
+    expect(requests[0].body).toEqual({ operation: 'put', keys: ['a', 'b'] });
+    expect(requests[0].headers['Authorization']).toBe('Bearer secret');
+    expect(requests.slice(1).map(request => `${request.method} ${request.url}`)).toEqual([
+      `PUT ${presignedUrl('a')}`,
+      `PUT ${presignedUrl('b')}`,
+    ]);
+    expect(requests[1].headers['Authorization']).toBeUndefined();
+    expect(requests[1].body).toEqual(item('A'));
+  });
+
+  it('预签名服务缺少上传地址时抛出错误', async () => {
+    const { fetchFn } = createMockServer(() => ({ body: { urls: {} } }));
+    const transport = new S3PresignedTransport(profile, fetchFn);
+
+    await expect(transport.send(new Map([['a', item('A')]]))).rejects.toThrow('预签名服务未返回 a 的上传地址');
+  });
+
+  it('拉取时跳过不存在的对象', async () => {
+    const { fetchFn } = createMockServer(request => {
+      if (request.url.endsWith('/presign')) {
+        return { body: { urls: { a: presignedUrl('a'), b: presignedUrl('b') } } };
+      }
+      return request.url === presignedUrl('a') ? { body: item('A') } : { status: 404 };
+    });
+    const transport = new S3PresignedTransport(profile, fetchFn);
+
+    const result = await transport.fetch(['a', 'b', 'c']);
+
+    expect(result.data).toEqual({ a: item('A') });
+  });
+});
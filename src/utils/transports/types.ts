@@ -0,0 +1,65 @@
+/**
+ * 传输层类型定义
+ */
+
+// 发送给endpoint的数据项
+export interface CookieCloudDataItem {
+  data: any;
+  [key: string]: any; // 允许其他字段
+}
+
+// endpoint 拒绝数据项的原因
+export type RejectionReason =
+  | 'quota_exceeded'        // 超出存储配额
+  | 'stale_timestamp'       // 时间戳早于服务端已有数据
+  | 'signature_rejected';   // 签名校验未通过
+
+// 被拒绝的数据项
+export interface KeyRejection {
+  reason: RejectionReason | string; // 拒绝原因，服务端可能返回未定义的原因
+  message?: string;                 // 服务端附带的说明
+}
+
+// 发送结果
+export interface TransportResult {
+  success: boolean;
+  message?: string;
+  rejected?: Record<string, KeyRejection>; // 被endpoint拒绝的数据标识，未列出的视为已接受
+}
+
+// 拉取结果
+export interface TransportFetchResult extends TransportResult {
+  data?: Record<string, CookieCloudDataItem>;
+}
+
+// 传输层使用的响应，只包含状态、响应头和响应体（原生 Response 也满足该接口）
+export interface TransportResponse {
+  ok: boolean;                                  // 状态码是否为 2xx
+  status: number;                               // 状态码
+  headers: { get(name: string): string | null }; // 响应头
+  text(): Promise<string>;                      // 读取响应体文本
+  json(): Promise<any>;                         // 按 JSON 解析响应体
+}
+
+// 可注入的 fetch 函数，便于对接本地模拟服务器测试
+export type FetchFunction = (input: RequestInfo, init?: RequestInit) => Promise<TransportResponse>;
+
+/**
+ * 同步传输接口
+ * 各实现负责把数据项写入endpoint并按数据标识读回，失败时抛出错误
+ */
+export interface SyncTransport {
+  /**
+   * 发送数据
+   * @param dataMap 数据标识 -> 数据项
+   * @returns Promise<TransportResult> 发送结果
+   */
+  send(dataMap: Map<string, CookieCloudDataItem>): Promise<TransportResult>;
+
+  /**
+   * 拉取数据
+   * @param keys 数据标识列表
+   * @returns Promise<TransportFetchResult> 拉取结果，只包含endpoint上存在的数据标识
+   */
+  fetch(keys: string[]): Promise<TransportFetchResult>;
+}
@@ -0,0 +1,89 @@
+/**
+ * WebDAV 传输
+ * 所有数据保存为一个 JSON 文件，endpoint 地址即文件地址，发送时读取已有文件合并后整体 PUT
+ * PUT 时带上读取时的 ETag（If-Match），文件在合并期间被其他设备修改时服务端返回 412，重新读取合并后再发送
+ */
+
+import { BaseTransport, pickKeys } from './baseTransport';
+import { CookieCloudDataItem, TransportFetchResult, TransportResult } from './types';
+
+// 写入冲突时的最大重试次数
+const MAX_CONFLICT_RETRIES = 3;
+
+// 远端文件内容
+interface WebDavBlob {
+  data: Record<string, CookieCloudDataItem>;  // 数据对象
+  exists: boolean;                            // 文件是否存在
+  etag: string | null;                        // 文件的 ETag，服务端不支持时为null
+}
+
+export class WebDavTransport extends BaseTransport {
+  /**
+   * 读取远端文件
+   * @returns Promise<WebDavBlob> 文件内容，文件不存在时数据为空对象
+   */
+  private async readBlob(): Promise<WebDavBlob> {
+    const response = await this.request(this.profile.url, { method: 'GET' });
+    if (response.status === 404) {
+      return { data: {}, exists: false, etag: null };
+    }
+    this.assertOk(response);
+    const result = await response.json();
+    return {
+      data: result?.data || {},
+      exists: true,
+      etag: response.headers.get('ETag'),
+    };
+  }
+
+  /**
+   * 获取条件写入的请求头
+   * 文件不存在时只允许创建；服务端没有返回 ETag 时无法判断冲突，直接覆盖
+   * @param blob 读取到的文件
+   * @returns 条件请求头
+   */
+  private getConditionalHeaders(blob: WebDavBlob): Record<string, string> {
+    if (!blob.exists) {
+      return { 'If-None-Match': '*' };
+    }
+    return blob.etag ? { 'If-Match': blob.etag } : {};
+  }
+
+  async send(dataMap: Map<string, CookieCloudDataItem>): Promise<TransportResult> {
+    for (let attempt = 0; attempt <= MAX_CONFLICT_RETRIES; attempt++) {
+      const blob = await this.readBlob();
+      const data = blob.data;
+      dataMap.forEach((value, key) => {
+        data[key] = value;
+      });
+
+      const response = await this.request(this.profile.url, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.getConditionalHeaders(blob),
+        },
+        body: JSON.stringify({ data }),
+      });
+      if (response.status === 412) {
+        // 文件在读取后被其他设备修改，重新读取合并
+        continue;
+      }
+      this.assertOk(response);
+      return {
+        success: true,
+        message: '数据发送成功'
+      };
+    }
+    throw new Error(`WebDAV 文件被其他设备同时修改，重试 ${MAX_CONFLICT_RETRIES} 次后仍然冲突`);
+  }
+
+  async fetch(keys: string[]): Promise<TransportFetchResult> {
+    const { data } = await this.readBlob();
+    return {
+      success: true,
+      message: '数据拉取成功',
+      data: pickKeys(data, keys)
+    };
+  }
+}
@@ -1,8 +1,33 @@
 import domainStateManager from './service/domainState';
-import ConfigManager from './service/config';
+import ConfigManager, { BaseConfig, DomainConfig, HeaderSnapshotRule, StorageKeys } from './service/config';
 import syncService from './service/syncService';
+import receiveService from './service/receiveService';
+import scheduler, { JobNames } from './service/scheduler';
+import incognitoSession from './service/incognitoSession';
+import { isIncognitoContext } from './utils/incognito';
 import { handleMessage } from './actions'; // 导入消息处理函数
 
+// 同步正在进行时，重试队列延后发送的时间（毫秒）
+const SYNC_QUEUE_BUSY_DELAY_MS = 60 * 1000;
+
+// 从会话存储恢复域名状态（Service Worker 可能被回收后重新启动）
+domainStateManager.restore();
+
+// 当前实例是否采集数据：普通实例始终采集，隐身实例需要启用隐身窗口同步
+let captureEnabled = !isIncognitoContext();
+ConfigManager.isContextSyncEnabled()
+  .then(enabled => {
+    captureEnabled = enabled;
+  })
+  .catch(error => {
+    console.error('读取隐身窗口同步设置失败:', error);
+  });
+
+// 隐身实例启动时清除上一个隐身会话遗留的数据
+incognitoSession.startIncognitoSession().catch(error => {
+  console.error('初始化隐身会话失败:', error);
+});
+
 // 监听扩展安装事件
 chrome.runtime.onInstalled.addListener(async (details) => {
   console.log('Cookie Cloud 扩展已安装', details);
@@ -36,20 +61,91 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
 
 // 监听 cookie 变化
 chrome.cookies.onChanged.addListener((changeInfo) => {
+  if (!captureEnabled) {
+    return;
+  }
   // 处理 cookie 变化事件
   domainStateManager.handleCookieChange(changeInfo);
 });
 
-// 监听请求头信息
-chrome.webRequest.onBeforeSendHeaders.addListener(
-  function (details) {
-    // 处理请求头信息
-    domainStateManager.handleRequestHeaders(details);
-    return { requestHeaders: details.requestHeaders };
-  },
-  { urls: ["<all_urls>"] },
-  ["requestHeaders"]
-);
+// 域名配置缓存：请求头监听需要同步获取快照规则，不能每个请求都读取存储
+let domainConfigs: DomainConfig[] = [];
+let hasSnapshotRules = false;
+
+/**
+ * 更新域名配置缓存
+ * @param configs 域名配置列表
+ */
+function setDomainConfigs(configs: DomainConfig[]): void {
+  domainConfigs = configs;
+  hasSnapshotRules = configs.some(config => (config.headerSnapshots || []).length > 0);
+}
+
+ConfigManager.getAllDomainConfigs()
+  .then(setDomainConfigs)
+  .catch(error => {
+    console.error('读取域名配置失败:', error);
+  });
+ConfigManager.watchConfig(StorageKeys.DOMAIN_CONFIG, (newValue: DomainConfig[] | undefined) => {
+  setDomainConfigs(newValue || []);
+});
+
+/**
+ * 获取请求所属域名生效的请求头快照规则
+ * @param url 请求URL
+ * @returns HeaderSnapshotRule[] 快照规则
+ */
+function getSnapshotRules(url: string): HeaderSnapshotRule[] {
+  if (!hasSnapshotRules) {
+    return [];
+  }
+  try {
+    return ConfigManager.findDomainConfig(domainConfigs, new URL(url).hostname)?.headerSnapshots || [];
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * 处理请求头信息
+ * @param details 请求详情
+ */
+function handleBeforeSendHeaders(details: chrome.webRequest.WebRequestHeadersDetails) {
+  if (captureEnabled) {
+    domainStateManager.handleRequestHeaders(details, getSnapshotRules(details.url));
+  }
+  return { requestHeaders: details.requestHeaders };
+}
+
+// 当前请求头监听是否使用 extraHeaders
+let extraHeadersEnabled = false;
+
+/**
+ * 注册请求头监听
+ * 启用 extraHeaders 时浏览器才会提供 Cookie、Referer、Origin 等请求头，切换时需要重新注册
+ * @param extraHeaders 是否使用 extraHeaders
+ */
+function registerHeaderListener(extraHeaders: boolean): void {
+  chrome.webRequest.onBeforeSendHeaders.removeListener(handleBeforeSendHeaders);
+  chrome.webRequest.onBeforeSendHeaders.addListener(
+    handleBeforeSendHeaders,
+    { urls: ["<all_urls>"] },
+    extraHeaders ? ["requestHeaders", "extraHeaders"] : ["requestHeaders"]
+  );
+  extraHeadersEnabled = extraHeaders;
+}
+
+// 监听请求头信息，读取配置后按需切换为 extraHeaders
+registerHeaderListener(false);
+ConfigManager.getBaseConfig()
+  .then(config => {
+    if (config.captureExtraHeaders) {
+      registerHeaderListener(true);
+    }
+  })
+  .catch(error => {
+    console.error('读取请求头采集设置失败:', error);
+  });
 
 // 监听标签页更新事件
 chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
@@ -63,32 +159,133 @@ chrome.tabs.onRemoved.addListener((tabId) => {
   domainStateManager.clearTabDomains(tabId);
 });
 
-// 设置定期清理过期数据的任务
-setInterval(() => {
-  domainStateManager.cleanupExpiredData();
-}, 6 * 60 * 60 * 1000); // 每6小时清理一次
+// 隐身实例在最后一个隐身窗口关闭时清除隐身会话数据
+if (isIncognitoContext()) {
+  chrome.windows.onRemoved.addListener(() => {
+    incognitoSession.wipeIfNoIncognitoWindows().catch(error => {
+      console.error('清除隐身会话数据失败:', error);
+    });
+  });
+}
 
-// 设置自动同步任务
-setInterval(async () => {
-  try {
-    // 获取配置，检查是否启用了自动同步
-    const config = await ConfigManager.getBaseConfig();
-    if (config.enableAutoSync) {
-      // 获取上次同步时间和当前时间
-      const now = Date.now();
-      const lastSyncTime = config.lastSyncTime || 0;
-      const syncIntervalMs = config.syncInterval * 60 * 1000; // 转换为毫秒
-      
-      // 判断是否达到同步间隔
-      if (now - lastSyncTime >= syncIntervalMs) {
-        // 执行同步，只同步变化的数据
-        await syncService.syncDomainData(true);
-      } 
-    }
-  } catch (error) {
-    console.error('自动同步过程中发生错误:', error);
+/**
+ * 执行自动同步任务
+ * 网络或服务端临时错误导致同步失败时按指数退避安排重试，私钥锁定等需要用户处理的失败不重试
+ */
+async function runAutoSync(): Promise<void> {
+  // 获取配置，检查是否启用了自动同步
+  const config = await ConfigManager.getBaseConfig();
+  if (!config.enableAutoSync) {
+    return;
+  }
+
+  // 网络未连接时暂停自动同步，恢复连接后立即补同步
+  if (!navigator.onLine) {
+    console.info('网络未连接，跳过本次自动同步');
+    return;
   }
-}, 10 * 1000); // 每分钟检查一次
+
+  // 执行同步，只同步变化的数据
+  const result = await syncService.syncDomainData(true);
+  if (result.busy) {
+    // 手动同步正在进行，本次自动同步跳过
+    return;
+  }
+
+  // 启用接收模式时，同时从对端拉取数据
+  if (config.enableReceive) {
+    await receiveService.receiveDomainData();
+  }
+
+  if (result.retryable) {
+    const delay = await scheduler.scheduleRetry(JobNames.AUTO_SYNC_RETRY);
+    console.warn(`自动同步失败，${Math.round(delay / 1000)} 秒后重试:`, result.message);
+    return;
+  }
+
+  await scheduler.resetRetry(JobNames.AUTO_SYNC_RETRY);
+  if (!result.success) {
+    console.warn('自动同步失败，等待下次同步:', result.message);
+  }
+}
+
+/**
+ * 根据配置调整自动同步任务
+ * @param config 基础配置
+ */
+async function reconcileAutoSync(config: BaseConfig): Promise<void> {
+  if (!config.enableAutoSync) {
+    await scheduler.cancel(JobNames.AUTO_SYNC);
+    await scheduler.resetRetry(JobNames.AUTO_SYNC_RETRY);
+    return;
+  }
+
+  // 首次执行时间对齐到下次同步时间
+  const nextSyncTime = await ConfigManager.getNextSyncTime();
+  const delayInMinutes = (nextSyncTime - Date.now()) / 60000;
+  await scheduler.schedulePeriodic(JobNames.AUTO_SYNC, config.syncInterval, delayInMinutes);
+}
+
+// 注册定时任务
+scheduler.registerJob(JobNames.CLEANUP, async () => {
+  await domainStateManager.cleanupExpiredData();
+});
+scheduler.registerJob(JobNames.AUTO_SYNC, runAutoSync);
+scheduler.registerJob(JobNames.AUTO_SYNC_RETRY, runAutoSync);
+scheduler.registerJob(JobNames.SYNC_QUEUE_RETRY, async () => {
+  // 网络未连接时不消耗重试次数，恢复连接后统一发送
+  if (!navigator.onLine) {
+    return;
+  }
+  const result = await syncService.flushSyncQueue();
+  if (result.busy) {
+    // 同步正在进行，稍后再发送队列中的数据
+    await scheduler.scheduleOnce(JobNames.SYNC_QUEUE_RETRY, SYNC_QUEUE_BUSY_DELAY_MS);
+  }
+});
+scheduler.registerJob(JobNames.AUTO_LOCK, async () => {
+  await ConfigManager.lockPrivateKey();
+});
+scheduler.start();
+
+// 每6小时清理一次过期数据
+scheduler.schedulePeriodic(JobNames.CLEANUP, 6 * 60);
+
+// 启动时以及同步设置变化时调整自动同步任务
+ConfigManager.getBaseConfig()
+  .then(reconcileAutoSync)
+  .catch(error => {
+    console.error('设置自动同步任务失败:', error);
+  });
+ConfigManager.watchConfig(StorageKeys.BASE, (newValue: BaseConfig | undefined) => {
+  if (isIncognitoContext()) {
+    captureEnabled = !!newValue?.enableIncognitoSync;
+  }
+  if (!!newValue?.captureExtraHeaders !== extraHeadersEnabled) {
+    registerHeaderListener(!!newValue?.captureExtraHeaders);
+  }
+  if (!newValue) {
+    // 配置被清除时停止自动同步
+    scheduler.cancel(JobNames.AUTO_SYNC);
+    return;
+  }
+  reconcileAutoSync(newValue).catch(error => {
+    console.error('调整自动同步任务失败:', error);
+  });
+});
+
+// 网络恢复时立即执行一次自动同步并发送积压的数据
+globalThis.addEventListener('online', () => {
+  console.info('网络已恢复，开始同步');
+  runAutoSync()
+    .then(() => syncService.flushSyncQueue(true))
+    .catch(error => {
+      console.error('网络恢复后同步失败:', error);
+    });
+});
+globalThis.addEventListener('offline', () => {
+  console.info('网络已断开，暂停自动同步');
+});
 
 console.log('Cookie Cloud Service Worker 已启动');
 syncService.syncDomainData(false) // 同步所有数据，不仅是上次提取后的